@@ -5,10 +5,34 @@ import { readFile, writeFile, mkdir, readdir, rm, stat } from "fs/promises";
 import { join, dirname, resolve, relative } from "path";
 import * as Diff from "diff";
 import * as readline from "readline";
-import { loadConfigFile, generateJsonSchema } from "../core/config.js";
-import { resolveResources } from "../core/resources.js";
-import { applyPatches, resolveExtends, type GroupOptions } from "../core/patches.js";
-import { runGlobalValidators, type ValidationError } from "../core/validation.js";
+import { loadConfigFile, generateJsonSchema, resolveVariableScope } from "../core/config.js";
+import {
+  collectPatchFiles,
+  collectRemoteResources,
+  fetchLockedResource,
+  findSecurityViolations,
+  getResourceUrl,
+  resolveResources,
+  type ResolveOptions,
+} from "../core/resources.js";
+import {
+  applyPatches,
+  createLinkContext,
+  describeWhere,
+  resolveExtends,
+  withDefaultOnNoMatch,
+  type GroupOptions,
+  type PatchContext,
+  type OccurrenceCount,
+  type PatchOccurrences,
+} from "../core/patches.js";
+import type { VariableScope } from "../core/interpolation.js";
+import {
+  formatValidationError,
+  runLinkValidators,
+  validateFiles,
+  type ValidationError,
+} from "../core/validation.js";
 import { applyFileOperations, applyFileOperationResults } from "../core/file-operations.js";
 import { lintConfig, type LintResult } from "../core/lint.js";
 import {
@@ -31,7 +55,17 @@ import {
 import {
   BuildCache,
   calculatePatchesHashForCache,
+  formatBytes,
 } from "../core/cache.js";
+import { clearCache, listCache, pruneCache, redactUrl } from "../core/remote.js";
+import {
+  createEmptyLockFile,
+  getLockFilePath,
+  readLockFile,
+  updateLockFile,
+  writeLockFile,
+  type LockedResource,
+} from "../core/lockfile.js";
 
 // Types for CLI output
 interface BuildResult {
@@ -45,6 +79,7 @@ interface BuildResult {
   patches?: { applied: number; skipped: number };
   bytes?: number;
   byOperation?: Record<string, number>;
+  occurrences?: Record<string, OccurrenceCount>;
 }
 
 interface DiffFileResult {
@@ -76,6 +111,31 @@ interface SchemaResult {
   schema: Record<string, unknown>;
 }
 
+interface FetchCommandResult {
+  success: boolean;
+  fetched: Array<{ url: string; cached: boolean }>;
+  error?: string;
+}
+
+interface CacheListEntry {
+  type: "git" | "http" | "build";
+  key: string;
+  path: string;
+  size: number;
+  resolved?: string;
+  modified: string;
+}
+
+interface CacheCommandResult {
+  success: boolean;
+  action: string;
+  entries?: CacheListEntry[];
+  totalSize?: number;
+  cleared?: number;
+  pruned?: number;
+  error?: string;
+}
+
 // CLI options
 interface CliOptions {
   format: "text" | "json";
@@ -103,12 +163,19 @@ interface CliOptions {
   // Patch group options
   enableGroups: string[];
   disableGroups: string[];
+  // Remote resource options
+  offline: boolean; // Fail if a fetch would need the network
+  update: boolean; // Re-resolve refs and rewrite the lock file
+  noLock: boolean; // Ignore the lock file entirely
+  // Cache command options
+  olderThan?: string; // Duration for cache prune, e.g. "7d"
 }
 
 // Parse command line arguments
 function parseArgs(args: string[]): {
   command: string | null;
   path: string;
+  extraArgs: string[];
   options: CliOptions;
 } {
   const options: CliOptions = {
@@ -127,6 +194,9 @@ function parseArgs(args: string[]): {
     parallel: 0,
     enableGroups: [],
     disableGroups: [],
+    offline: false,
+    update: false,
+    noLock: false,
   };
 
   let command: string | null = null;
@@ -200,6 +270,16 @@ function parseArgs(args: string[]): {
       options.disableGroups = arg.slice("--disable-groups=".length).split(",").filter(Boolean);
     } else if (arg === "--disable-groups" && i + 1 < args.length) {
       options.disableGroups = args[++i].split(",").filter(Boolean);
+    } else if (arg === "--offline") {
+      options.offline = true;
+    } else if (arg === "--update") {
+      options.update = true;
+    } else if (arg === "--no-lock") {
+      options.noLock = true;
+    } else if (arg.startsWith("--older-than=")) {
+      options.olderThan = arg.slice("--older-than=".length);
+    } else if (arg === "--older-than" && i + 1 < args.length) {
+      options.olderThan = args[++i];
     } else if (!arg.startsWith("-")) {
       positionalArgs.push(arg);
     }
@@ -212,7 +292,7 @@ function parseArgs(args: string[]): {
     path = positionalArgs[1];
   }
 
-  return { command, path, options };
+  return { command, path, extraArgs: positionalArgs.slice(2), options };
 }
 
 // Logger utility based on verbosity
@@ -294,6 +374,44 @@ async function getOutputFiles(outputDir: string): Promise<Set<string>> {
   return files;
 }
 
+// Lock file and network settings for resolving remote resources
+async function getRemoteOptions(
+  configPath: string,
+  options: CliOptions
+): Promise<Pick<ResolveOptions, "lockFile" | "lockEntries" | "fetchOptions">> {
+  if (options.offline && options.update) {
+    throw new Error("--offline and --update cannot be used together (--update refetches remote resources)");
+  }
+
+  return {
+    // --update re-resolves floating refs, so existing pins are ignored
+    lockFile:
+      options.noLock || options.update ? null : await readLockFile(getLockFilePath(configPath)),
+    lockEntries: options.noLock ? undefined : [],
+    fetchOptions: { offline: options.offline, noCache: options.update },
+  };
+}
+
+// Record newly fetched remote resources in the lock file next to the config
+async function writeLockEntries(
+  configPath: string,
+  entries: LockedResource[] | undefined,
+  logger: ReturnType<typeof createLogger>
+): Promise<void> {
+  if (!entries || entries.length === 0) {
+    return;
+  }
+
+  const lockFilePath = getLockFilePath(configPath);
+  let lockFile = (await readLockFile(lockFilePath)) ?? createEmptyLockFile();
+  for (const entry of entries) {
+    lockFile = updateLockFile(lockFile, entry);
+  }
+
+  await writeLockFile(lockFilePath, lockFile);
+  logger.verbose(`Updated lock file ${lockFilePath} (${entries.length} new entries)`, 1);
+}
+
 // Parallel processing utility with concurrency limit
 async function processInParallel<T, R>(
   items: T[],
@@ -348,24 +466,46 @@ async function build(
   let filesProcessed = 0;
   let patchesSkipped = 0;
   const byOperation: Record<string, number> = {};
+  const occurrences: Record<string, OccurrenceCount> = {};
 
   try {
     logger.verbose(`Loading config from ${configPath}`, 1);
     const config = await loadConfigFile(configPath);
 
+    // Build group options from CLI flags
+    const groupOptions: GroupOptions = {
+      enableGroups: options.enableGroups.length > 0 ? options.enableGroups : undefined,
+      disableGroups: options.disableGroups.length > 0 ? options.disableGroups : undefined,
+    };
+
     logger.verbose(`Resolving resources...`, 1);
-    const resources = await resolveResources(configPath, config.resources);
+    const remoteOptions = await getRemoteOptions(configPath, options);
+    const scope = await resolveVariableScope(config, configPath);
+    const resources = await resolveResources(configPath, config.resources, {
+      groupOptions,
+      warnings: result.warnings,
+      scope,
+      ...remoteOptions,
+    });
     logger.verbose(`Found ${resources.length} resources`, 2);
+    await writeLockEntries(configPath, remoteOptions.lockEntries, logger);
 
     const configDir = dirname(configPath);
     const outputDir = resolve(configDir, config.output);
     logger.verbose(`Output directory: ${outputDir}`, 1);
 
-    // Apply file operations first (copy, rename, delete, move)
+    // Apply file operations first (copy, rename, delete, move, create)
     // Resolve patch inheritance first
-    const patches = config.patches ? resolveExtends(config.patches) : [];
-    const fileOpsResult = applyFileOperations(patches, resources);
+    const patches = withDefaultOnNoMatch(
+      config.patches ? resolveExtends(config.patches) : [],
+      config.onNoMatch
+    );
+    const fileOpsResult = applyFileOperations(patches, resources, scope);
     const processedResources = applyFileOperationResults(resources, fileOpsResult);
+    const patchContext: PatchContext = {
+      links: createLinkContext(patches, processedResources, fileOpsResult.renamedFiles, groupOptions),
+      ...scope,
+    };
 
     result.patchesApplied += fileOpsResult.operationsApplied;
     result.warnings.push(...fileOpsResult.warnings);
@@ -374,7 +514,7 @@ async function build(
     // Track file operation stats
     if (options.stats) {
       for (const patch of patches) {
-        if (["copy-file", "rename-file", "delete-file", "move-file"].includes(patch.op)) {
+        if (["copy-file", "rename-file", "delete-file", "move-file", "create-file"].includes(patch.op)) {
           byOperation[patch.op] = (byOperation[patch.op] || 0) + 1;
         }
       }
@@ -384,6 +524,15 @@ async function build(
     const writtenFiles = new Set<string>();
     const existingFiles = await getOutputFiles(outputDir);
 
+    // Content files are inlined into the patches when the config loads;
+    // vars and snippets are not, so they are hashed alongside. rewrite-links
+    // output also depends on other files' moves and header renames.
+    const links = patchContext.links && {
+      renamedFiles: [...patchContext.links.renamedFiles],
+      anchorRenames: [...patchContext.links.anchorRenames].map(([path, slugs]) => [path, [...slugs]]),
+    };
+    const hashedPatches = [...patches, scope, links ?? null];
+
     // Incremental build support
     let incrementalAnalysis: ReturnType<typeof analyzeChanges> | null = null;
     let configHash = "";
@@ -395,7 +544,7 @@ async function build(
       // Calculate hashes for change detection
       const configContent = await readFile(configPath, "utf-8");
       configHash = calculateHash(configContent);
-      patchesHash = calculatePatchesHash(patches);
+      patchesHash = calculatePatchesHash(hashedPatches);
 
       // Read existing manifest
       const manifestPath = getManifestPath(outputDir);
@@ -423,12 +572,6 @@ async function build(
       }
     }
 
-    // Build group options from CLI flags
-    const groupOptions: GroupOptions = {
-      enableGroups: options.enableGroups.length > 0 ? options.enableGroups : undefined,
-      disableGroups: options.disableGroups.length > 0 ? options.disableGroups : undefined,
-    };
-
     // Build cache support
     let buildCache: BuildCache | null = null;
     let cachePatchesHash = "";
@@ -437,7 +580,7 @@ async function build(
     if (options.cache) {
       buildCache = new BuildCache(outputDir);
       await buildCache.init();
-      cachePatchesHash = calculatePatchesHashForCache(patches);
+      cachePatchesHash = calculatePatchesHashForCache(hashedPatches);
       logger.verbose(`Build cache enabled in ${outputDir}/.kustomark-cache/`, 1);
     }
 
@@ -452,6 +595,7 @@ async function build(
       bytes: number;
       eligiblePatches: number;
       opCounts: Record<string, number>;
+      occurrences: PatchOccurrences[];
       // For incremental build manifest
       sourceContent: string;
       outputContent: string;
@@ -465,15 +609,20 @@ async function build(
       let outputContent: string;
       let patchesApplied = 0;
       let warnings: string[] = [];
+      let patchOccurrences: PatchOccurrences[] = [];
       let cacheHit = false;
 
       // Check cache first
       if (buildCache) {
         const cacheKey = buildCache.generateCacheKey(resource.content, cachePatchesHash, resource.relativePath);
         const cachedContent = await buildCache.get(cacheKey);
+        // Entries cached without occurrence counts are rebuilt for --stats
+        const cachedOccurrences =
+          cachedContent !== null && options.stats ? await buildCache.getOccurrences(cacheKey) : [];
 
-        if (cachedContent !== null) {
+        if (cachedContent !== null && cachedOccurrences !== null) {
           outputContent = cachedContent;
+          patchOccurrences = cachedOccurrences;
           cacheHit = true;
           logger.verbose(`  Cache hit for ${resource.relativePath}`, 2);
         } else {
@@ -482,15 +631,17 @@ async function build(
             resource.content,
             patches,
             resource.relativePath,
-            groupOptions
+            groupOptions,
+            patchContext
           );
           outputContent = patchResult.content;
           patchesApplied = patchResult.applied;
           warnings = patchResult.warnings;
+          patchOccurrences = patchResult.occurrences;
 
           // Store in cache
           const sourceHash = calculateHash(resource.content);
-          await buildCache.set(cacheKey, outputContent, sourceHash, cachePatchesHash);
+          await buildCache.set(cacheKey, outputContent, sourceHash, cachePatchesHash, patchOccurrences);
           logger.verbose(`  Cached result for ${resource.relativePath}`, 3);
         }
       } else {
@@ -499,11 +650,13 @@ async function build(
           resource.content,
           patches,
           resource.relativePath,
-          groupOptions
+          groupOptions,
+          patchContext
         );
         outputContent = patchResult.content;
         patchesApplied = patchResult.applied;
         warnings = patchResult.warnings;
+        patchOccurrences = patchResult.occurrences;
       }
 
       // Track stats
@@ -512,7 +665,7 @@ async function build(
 
       if (options.stats && minimatchModule) {
         for (const patch of patches) {
-          if (!["copy-file", "rename-file", "delete-file", "move-file"].includes(patch.op)) {
+          if (!["copy-file", "rename-file", "delete-file", "move-file", "create-file"].includes(patch.op)) {
             const include = patch.include || ["**/*"];
             const exclude = patch.exclude || [];
             const matchesInclude = include.some((pattern) =>
@@ -547,6 +700,7 @@ async function build(
         bytes,
         eligiblePatches,
         opCounts,
+        occurrences: patchOccurrences,
         sourceContent: resource.content,
         outputContent,
         cacheHit,
@@ -570,7 +724,8 @@ async function build(
           resource.content,
           patches as unknown as Array<Record<string, unknown>>,
           resource.relativePath,
-          groupOptions
+          groupOptions,
+          patchContext
         );
 
         if (debugResult.quit) {
@@ -634,6 +789,10 @@ async function build(
           for (const [op, count] of Object.entries(resourceResult.opCounts)) {
             byOperation[op] = (byOperation[op] || 0) + count;
           }
+          for (const { op, matched, applied } of resourceResult.occurrences) {
+            const total = occurrences[op] || { matched: 0, applied: 0 };
+            occurrences[op] = { matched: total.matched + matched, applied: total.applied + applied };
+          }
         }
 
         // Track manifest entry for incremental builds
@@ -663,6 +822,23 @@ async function build(
           }
         }
       }
+
+      // Check links across the whole output, including files an incremental build skipped
+      if (config.validators && config.validators.some((validator) => validator.linksResolve)) {
+        const outputFiles = resourceResults.map((r) => ({ path: r.relativePath, content: r.outputContent }));
+        if (options.incremental && incrementalAnalysis && !incrementalAnalysis.fullRebuildRequired) {
+          for (const skippedPath of incrementalAnalysis.filesToSkip) {
+            try {
+              outputFiles.push({ path: skippedPath, content: await readFile(join(outputDir, skippedPath), "utf-8") });
+            } catch {
+              // Missing output is rebuilt next time; nothing to check yet
+            }
+          }
+        }
+        for (const error of runLinkValidators(outputFiles, config.validators)) {
+          result.warnings.push(formatValidationError(error));
+        }
+      }
     }
 
     // Clean up files not in source if --clean is set
@@ -682,7 +858,7 @@ async function build(
       if (!configHash) {
         const configContent = await readFile(configPath, "utf-8");
         configHash = calculateHash(configContent);
-        patchesHash = calculatePatchesHash(patches);
+        patchesHash = calculatePatchesHash(hashedPatches);
       }
 
       const manifestPath = getManifestPath(outputDir);
@@ -700,6 +876,7 @@ async function build(
       result.patches = { applied: result.patchesApplied, skipped: patchesSkipped };
       result.bytes = totalBytes;
       result.byOperation = byOperation;
+      result.occurrences = occurrences;
     }
 
     // Log warnings
@@ -741,31 +918,50 @@ async function diff(
     logger.verbose(`Loading config from ${configPath}`, 1);
     const config = await loadConfigFile(configPath);
 
+    // Build group options from CLI flags
+    const groupOptions: GroupOptions = {
+      enableGroups: options.enableGroups.length > 0 ? options.enableGroups : undefined,
+      disableGroups: options.disableGroups.length > 0 ? options.disableGroups : undefined,
+    };
+
     logger.verbose(`Resolving resources...`, 1);
-    const resources = await resolveResources(configPath, config.resources);
+    const layerWarnings: string[] = [];
+    const remoteOptions = await getRemoteOptions(configPath, options);
+    const scope = await resolveVariableScope(config, configPath);
+    const resources = await resolveResources(configPath, config.resources, {
+      groupOptions,
+      warnings: layerWarnings,
+      scope,
+      ...remoteOptions,
+    });
     logger.verbose(`Found ${resources.length} resources`, 2);
+    await writeLockEntries(configPath, remoteOptions.lockEntries, logger);
+    for (const warning of layerWarnings) {
+      logger.warn(warning);
+    }
 
     const configDir = dirname(configPath);
     const outputDir = resolve(configDir, config.output);
     logger.verbose(`Output directory: ${outputDir}`, 1);
 
-    // Apply file operations first (copy, rename, delete, move)
+    // Apply file operations first (copy, rename, delete, move, create)
     // Resolve patch inheritance first
-    const patches = config.patches ? resolveExtends(config.patches) : [];
-    const fileOpsResult = applyFileOperations(patches, resources);
+    const patches = withDefaultOnNoMatch(
+      config.patches ? resolveExtends(config.patches) : [],
+      config.onNoMatch
+    );
+    const fileOpsResult = applyFileOperations(patches, resources, scope);
     const processedResources = applyFileOperationResults(resources, fileOpsResult);
+    const patchContext: PatchContext = {
+      links: createLinkContext(patches, processedResources, fileOpsResult.renamedFiles, groupOptions),
+      ...scope,
+    };
 
     logger.verbose(`Applied ${fileOpsResult.operationsApplied} file operations`, 2);
 
     const existingFiles = await getOutputFiles(outputDir);
     const processedFiles = new Set<string>();
 
-    // Build group options from CLI flags
-    const groupOptions: GroupOptions = {
-      enableGroups: options.enableGroups.length > 0 ? options.enableGroups : undefined,
-      disableGroups: options.disableGroups.length > 0 ? options.disableGroups : undefined,
-    };
-
     // Define resource processor function for diff
     interface DiffResourceResult {
       relativePath: string;
@@ -781,7 +977,8 @@ async function diff(
         resource.content,
         patches,
         resource.relativePath,
-        groupOptions
+        groupOptions,
+        patchContext
       );
 
       const outputPath = join(outputDir, resource.relativePath);
@@ -902,20 +1099,55 @@ async function validate(
 
     logger.verbose(`Config parsed successfully`, 2);
 
-    // Check that resources exist
-    logger.verbose(`Checking resources...`, 1);
+    // Check remote resources against security allowlists before fetching any
+    logger.verbose(`Checking security policy...`, 1);
+    const violations = await findSecurityViolations(configPath);
+    if (violations.length > 0) {
+      result.errors.push(...violations);
+      result.valid = false;
+    }
+
+    // Check that every var and snippet resolves (nested layers are checked
+    // while resolving resources)
+    let scope: VariableScope | undefined;
     try {
-      const resources = await resolveResources(configPath, config.resources);
-      logger.verbose(`Found ${resources.length} resources`, 2);
+      scope = await resolveVariableScope(config, configPath);
+    } catch (scopeError) {
+      result.errors.push(scopeError instanceof Error ? scopeError.message : String(scopeError));
+      result.valid = false;
+    }
+
+    // Check that resources exist (skipped if fetching would break the policy)
+    let fileOpsFailed = false;
+    if (violations.length === 0) {
+      logger.verbose(`Checking resources...`, 1);
+      try {
+        // Nested layers report their own validator failures as warnings
+        const resources = await resolveResources(configPath, config.resources, {
+          warnings: result.warnings,
+        });
+        logger.verbose(`Found ${resources.length} resources`, 2);
 
-      if (resources.length === 0) {
-        result.warnings.push("No resources found matching the specified patterns");
+        if (resources.length === 0) {
+          result.warnings.push("No resources found matching the specified patterns");
+        }
+
+        // File operations run even without validators, so a create-file
+        // conflict fails validation rather than the build
+        try {
+          applyFileOperations(config.patches ? resolveExtends(config.patches) : [], resources, scope);
+        } catch (fileOpError) {
+          const errorMsg = fileOpError instanceof Error ? fileOpError.message : String(fileOpError);
+          result.errors.push(`File operations failed: ${errorMsg}`);
+          result.valid = false;
+          fileOpsFailed = true;
+        }
+      } catch (resourceError) {
+        const errorMsg =
+          resourceError instanceof Error ? resourceError.message : String(resourceError);
+        result.errors.push(`Resource resolution failed: ${errorMsg}`);
+        result.valid = false;
       }
-    } catch (resourceError) {
-      const errorMsg =
-        resourceError instanceof Error ? resourceError.message : String(resourceError);
-      result.errors.push(`Resource resolution failed: ${errorMsg}`);
-      result.valid = false;
     }
 
     // Check output directory configuration
@@ -944,35 +1176,45 @@ async function validate(
       }
     }
 
-    // Run global validators if present
-    if (config.validators && config.validators.length > 0) {
+    // Run global validators if present (they need the file operations to apply)
+    if (config.validators && config.validators.length > 0 && !fileOpsFailed) {
       logger.verbose(`Running ${config.validators.length} global validators...`, 1);
 
       try {
-        const resources = await resolveResources(configPath, config.resources);
-        const patches = config.patches || [];
-
-        // Apply patches and collect patched content
+        const resources = await resolveResources(configPath, config.resources, { scope });
+        const patches = config.patches ? resolveExtends(config.patches) : [];
+
+        // Apply file operations and patches, as build does, and collect the output
+        const fileOpsResult = applyFileOperations(patches, resources, scope);
+        const processedResources = applyFileOperationResults(resources, fileOpsResult);
+        const patchContext: PatchContext = {
+          links: createLinkContext(patches, processedResources, fileOpsResult.renamedFiles),
+          ...scope,
+        };
         const patchedFiles: Array<{ path: string; content: string }> = [];
-        for (const resource of resources) {
-          const patchResult = applyPatches(resource.content, patches, resource.relativePath);
+        for (const resource of processedResources) {
+          const patchResult = applyPatches(
+            resource.content,
+            patches,
+            resource.relativePath,
+            undefined,
+            patchContext
+          );
           patchedFiles.push({
             path: resource.relativePath,
             content: patchResult.content,
           });
         }
 
-        // Run validators
-        const validationErrors = patchedFiles.flatMap((file) =>
-          runGlobalValidators(file.content, file.path, config.validators!)
-        );
+        // Run validators, including link checks across all files
+        const validationErrors = validateFiles(patchedFiles, config.validators).errors;
 
         if (validationErrors.length > 0) {
           result.valid = false;
           result.validationErrors = validationErrors;
 
           for (const error of validationErrors) {
-            const errorMsg = `Validator '${error.validator}' failed on ${error.file}: ${error.message}`;
+            const errorMsg = formatValidationError(error);
             result.errors.push(errorMsg);
             logger.error(errorMsg);
           }
@@ -1117,8 +1359,14 @@ function formatPatchInfo(patch: Record<string, unknown>, index: number): string
       break;
     case "remove-frontmatter":
     case "rename-frontmatter":
+    case "dedupe-frontmatter":
+    case "sort-frontmatter":
       details = `key: ${patch.key || patch.old}`;
       break;
+    case "append-to-frontmatter":
+    case "remove-from-frontmatter":
+      details = `${patch.key} ${op === "append-to-frontmatter" ? "+" : "-"} ${JSON.stringify(patch.value)}`;
+      break;
     case "insert-after-line":
     case "insert-before-line":
     case "replace-line":
@@ -1137,6 +1385,16 @@ function formatPatchInfo(patch: Record<string, unknown>, index: number): string
     case "change-section-level":
       details = `${patch.id} delta: ${patch.delta}`;
       break;
+    case "create-file":
+      details = `${patch.dest}${patch.onConflict ? ` (onConflict: ${patch.onConflict})` : ""}`;
+      break;
+    case "insert-section": {
+      const placement = ["after", "before", "firstChildOf", "lastChildOf"].find(
+        (key) => patch[key] !== undefined
+      );
+      details = `"${patch.title}" ${placement ? `${placement} ${patch[placement]}` : ""}`;
+      break;
+    }
     default:
       details = JSON.stringify(patch).slice(0, 60);
   }
@@ -1156,7 +1414,8 @@ async function applyPatchesDebug(
   content: string,
   patches: Array<Record<string, unknown>>,
   filePath: string,
-  groupOptions: GroupOptions
+  groupOptions: GroupOptions,
+  patchContext?: PatchContext
 ): Promise<{ content: string; applied: number; skipped: number; quit: boolean }> {
   let currentContent = content;
   let applied = 0;
@@ -1187,7 +1446,8 @@ async function applyPatchesDebug(
             currentContent,
             [patch] as Parameters<typeof applyPatches>[1],
             filePath,
-            groupOptions
+            groupOptions,
+            patchContext
           );
           if (testResult.content !== currentContent) {
             const diff = Diff.createPatch(filePath, currentContent, testResult.content, "before", "after");
@@ -1221,7 +1481,8 @@ async function applyPatchesDebug(
       currentContent,
       [patch] as Parameters<typeof applyPatches>[1],
       filePath,
-      groupOptions
+      groupOptions,
+      patchContext
     );
     currentContent = result.content;
     if (result.applied > 0) {
@@ -1359,6 +1620,162 @@ patches:${examplePatch || " []"}
   return result;
 }
 
+// Fetch command implementation
+async function fetchRemotes(
+  configPath: string,
+  options: CliOptions
+): Promise<FetchCommandResult> {
+  const logger = createLogger(options);
+  const result: FetchCommandResult = {
+    success: false,
+    fetched: [],
+  };
+
+  try {
+    logger.verbose(`Collecting remote resources from ${configPath}`, 1);
+    const remotes = await collectRemoteResources(configPath);
+    const remoteOptions = await getRemoteOptions(configPath, options);
+
+    for (const { resource, security } of remotes) {
+      const url = redactUrl(getResourceUrl(resource));
+      const fetchResult = await fetchLockedResource(resource, { ...remoteOptions, security });
+      result.fetched.push({ url, cached: fetchResult.cached });
+      logger.info(`${fetchResult.cached ? "Cached" : "Fetched"}: ${url}`);
+    }
+
+    await writeLockEntries(configPath, remoteOptions.lockEntries, logger);
+
+    result.success = true;
+    logger.info(`Fetch complete: ${result.fetched.length} remote resources`);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    result.error = errorMsg;
+    logger.error(errorMsg);
+  }
+
+  return result;
+}
+
+// Parse a duration like "30m", "12h", "7d" or "2w" into milliseconds (bare numbers are days)
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m|h|d|w)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const units: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+  };
+  return parseFloat(match[1]) * units[match[2] ?? "d"];
+}
+
+// Locate the build cache of the project in the current directory, if any
+async function findProjectBuildCache(): Promise<BuildCache | null> {
+  try {
+    const configPath = await findConfigPath(".");
+    const config = await loadConfigFile(configPath);
+    return new BuildCache(resolve(dirname(configPath), config.output));
+  } catch {
+    return null;
+  }
+}
+
+// Cache command implementation
+async function cacheCommand(
+  action: string,
+  filter: string | undefined,
+  options: CliOptions
+): Promise<CacheCommandResult> {
+  const logger = createLogger(options);
+  const result: CacheCommandResult = {
+    success: false,
+    action,
+  };
+
+  try {
+    const buildCache = await findProjectBuildCache();
+
+    switch (action) {
+      case "list": {
+        const entries: CacheListEntry[] = (await listCache()).map((entry) => ({
+          type: entry.type,
+          key: entry.key,
+          path: entry.path,
+          size: entry.size,
+          resolved: entry.resolved,
+          modified: entry.modified,
+        }));
+        for (const entry of buildCache ? await buildCache.list() : []) {
+          entries.push({
+            type: "build",
+            key: entry.key,
+            path: entry.path,
+            size: entry.size,
+            modified: entry.createdAt,
+          });
+        }
+
+        result.entries = entries;
+        result.totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+        for (const entry of entries) {
+          const resolved = entry.resolved ? ` @ ${entry.resolved.slice(0, 12)}` : "";
+          logger.info(`${entry.type.padEnd(5)} ${formatBytes(entry.size).padStart(9)}  ${entry.key}${resolved}`);
+          logger.verbose(`      ${entry.path} (modified ${entry.modified})`, 1);
+        }
+        logger.info(`${entries.length} cache entries, ${formatBytes(result.totalSize)} total`);
+        break;
+      }
+
+      case "clear": {
+        let { cleared } = await clearCache(filter);
+        // A filter targets remote resources; the build cache is only cleared wholesale
+        if (!filter && buildCache) {
+          cleared += await buildCache.clear();
+        }
+
+        result.cleared = cleared;
+        logger.info(`Cleared ${cleared} cache entries`);
+        break;
+      }
+
+      case "prune": {
+        if (!options.olderThan) {
+          throw new Error("cache prune requires --older-than=<duration> (e.g. 7d, 12h)");
+        }
+        const maxAge = parseDuration(options.olderThan);
+        if (maxAge === null) {
+          throw new Error(`Invalid duration: ${options.olderThan} (expected e.g. 30m, 12h, 7d, 2w)`);
+        }
+
+        let { pruned } = await pruneCache(maxAge);
+        if (buildCache) {
+          pruned += await buildCache.prune(maxAge);
+        }
+
+        result.pruned = pruned;
+        logger.info(`Pruned ${pruned} cache entries older than ${options.olderThan}`);
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown cache action: ${action} (expected list, clear or prune)`);
+    }
+
+    result.success = true;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    result.error = errorMsg;
+    logger.error(errorMsg);
+  }
+
+  return result;
+}
+
 // Schema command implementation
 function schema(): SchemaResult {
   const jsonSchema = generateJsonSchema();
@@ -1442,6 +1859,29 @@ async function explain(
 
         for (const patch of result.patches) {
           logger.info(`  - [${patch.config}] ${patch.op}`);
+          if (patch.section) {
+            logger.info(`      ${patch.id} -> ${patch.section.id} (line ${patch.section.line})`);
+          } else if (patch.section === null) {
+            logger.info(`      ${patch.id} -> no matching section`);
+          }
+          if (patch.where) {
+            const status = patch.whereMatches === undefined
+              ? ""
+              : patch.whereMatches ? " (source matches)" : " (source does not match)";
+            logger.info(`      where ${describeWhere(patch.where)}${status}`);
+          }
+          for (const snippet of patch.snippets ?? []) {
+            const source = snippet.file ? `${snippet.file} in ${snippet.config}` : snippet.config;
+            logger.info(`      snippet ${snippet.name} (from ${source})`);
+          }
+        }
+
+        if (result.sections) {
+          logger.info(`Sections: ${result.sections.length}`);
+          for (const section of result.sections) {
+            const indent = "  ".repeat(section.level);
+            logger.info(`${indent}- ${section.id} (line ${section.line})`);
+          }
         }
       }
 
@@ -1614,6 +2054,48 @@ async function watch(
         KUSTOMARK_ERROR: errorMsg,
       }, options);
     }
+
+    await watchPatchFiles();
+  }
+
+  // Content and snippet files may live outside the config directory or use
+  // any extension, so each gets its own watcher. Synced after every build,
+  // since the configs may now read different files.
+  const fileWatchers = new Map<string, ReturnType<typeof fs.watch>>();
+
+  async function watchPatchFiles(): Promise<void> {
+    let files: string[];
+    try {
+      files = await collectPatchFiles(configPath);
+    } catch {
+      // The build reports config errors
+      return;
+    }
+
+    for (const [file, watcher] of fileWatchers) {
+      if (!files.includes(file)) {
+        watcher.close();
+        fileWatchers.delete(file);
+      }
+    }
+    for (const file of files) {
+      if (fileWatchers.has(file)) {
+        continue;
+      }
+      try {
+        fileWatchers.set(file, fs.watch(file, (eventType) => {
+          // Editors that save by replacing the file end this watcher;
+          // the next sync watches the new file
+          if (eventType === "rename") {
+            fileWatchers.get(file)?.close();
+            fileWatchers.delete(file);
+          }
+          debouncedBuild();
+        }));
+      } catch {
+        // Missing files are reported by the build
+      }
+    }
   }
 
   // Debounced build
@@ -1662,6 +2144,9 @@ async function watch(
   // Handle cleanup on SIGINT
   process.on("SIGINT", () => {
     watcher.close();
+    for (const fileWatcher of fileWatchers.values()) {
+      fileWatcher.close();
+    }
     if (options.format !== "json") {
       console.error("\nStopped watching.");
     }
@@ -1686,6 +2171,8 @@ Commands:
   build [path]     Build and write output
   diff [path]      Show what would change
   validate [path]  Validate config
+  fetch [path]     Fetch remote resources only (no build)
+  cache <action>   Manage caches: list, clear [filter], prune --older-than=<duration>
   init [path]      Create a new kustomark.yaml
   schema           Export JSON Schema for editor integration
   lint [path]      Check for common issues
@@ -1704,6 +2191,10 @@ Options:
   --parallel[=<n>]      Process files in parallel (default: 4 workers)
   --enable-groups=<g>   Only apply patches in these groups (comma-separated)
   --disable-groups=<g>  Skip patches in these groups (comma-separated)
+  --offline             Fail if a remote resource is not cached (build, diff, fetch)
+  --update              Re-resolve remote refs and rewrite the lock file
+  --no-lock             Ignore kustomark.lock.yaml
+  --older-than=<dur>    Age threshold for cache prune (e.g. 12h, 7d, 2w)
   -v, -vv, -vvv         Verbose output (increasing levels)
   -q                    Quiet mode (errors only)
   --base=<path>         Base config to extend (init only)
@@ -1723,6 +2214,11 @@ Examples:
   kustomark build ./my-project --cache
   kustomark build ./my-project --enable-groups=production
   kustomark build ./my-project --disable-groups=debug,verbose
+  kustomark build ./my-project --offline
+  kustomark fetch ./team --format=json
+  kustomark cache list --format=json
+  kustomark cache clear github.com/org/repo
+  kustomark cache prune --older-than=7d
   kustomark diff ./my-project --format=json
   kustomark validate ./my-project -v
   kustomark init ./overlays/team --base ../company
@@ -1768,7 +2264,7 @@ Watch Hooks:
 // Main entry point
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
-  const { command, path, options } = parseArgs(args);
+  const { command, path, extraArgs, options } = parseArgs(args);
 
   if (!command || command === "help" || command === "--help" || command === "-h") {
     printUsage();
@@ -1785,6 +2281,16 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
+  // Handle cache command separately (the path argument is the cache action)
+  if (command === "cache") {
+    const action = path === "." ? "list" : path;
+    const result = await cacheCommand(action, extraArgs[0], options);
+    if (options.format === "json") {
+      console.log(JSON.stringify(result, null, 2));
+    }
+    process.exit(result.success ? 0 : 1);
+  }
+
   // Handle init command separately (doesn't need existing config)
   if (command === "init") {
     try {
@@ -1832,6 +2338,15 @@ async function main(): Promise<void> {
         break;
       }
 
+      case "fetch": {
+        const result = await fetchRemotes(configPath, options);
+        if (options.format === "json") {
+          console.log(JSON.stringify(result, null, 2));
+        }
+        exitCode = result.success ? 0 : 1;
+        break;
+      }
+
       case "validate": {
         const result = await validate(configPath, options);
         if (options.format === "json") {
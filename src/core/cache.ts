@@ -2,6 +2,7 @@ import { readFile, writeFile, mkdir, readdir, rm, stat } from "fs/promises";
 import { join, dirname } from "path";
 import { createHash } from "crypto";
 import { existsSync } from "fs";
+import type { PatchOccurrences } from "./patches.js";
 
 /**
  * Default cache directory name
@@ -16,6 +17,8 @@ interface CacheEntryMeta {
   patchesHash: string;
   createdAt: string;
   size: number;
+  /** Per-patch occurrence counts, so cached files still count in --stats */
+  occurrences?: PatchOccurrences[];
 }
 
 /**
@@ -28,6 +31,16 @@ export interface CacheStats {
   totalSize: number;
 }
 
+/**
+ * A single entry in the build cache
+ */
+export interface BuildCacheEntry {
+  key: string;
+  path: string;
+  size: number;
+  createdAt: string;
+}
+
 /**
  * Build cache for storing computed patch results
  */
@@ -97,6 +110,19 @@ export class BuildCache {
     }
   }
 
+  /**
+   * Get the occurrence counts stored with an entry, or null for a missing
+   * entry or one stored without them
+   */
+  async getOccurrences(cacheKey: string): Promise<PatchOccurrences[] | null> {
+    try {
+      const meta = JSON.parse(await readFile(this.getMetaPath(cacheKey), "utf-8")) as CacheEntryMeta;
+      return meta.occurrences ?? null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Store content in cache
    */
@@ -104,7 +130,8 @@ export class BuildCache {
     cacheKey: string,
     content: string,
     sourceHash: string,
-    patchesHash: string
+    patchesHash: string,
+    occurrences?: PatchOccurrences[]
   ): Promise<void> {
     const cachePath = this.getCachePath(cacheKey);
     const metaPath = this.getMetaPath(cacheKey);
@@ -121,6 +148,7 @@ export class BuildCache {
       patchesHash,
       createdAt: new Date().toISOString(),
       size: Buffer.byteLength(content, "utf-8"),
+      occurrences,
     };
     await writeFile(metaPath, JSON.stringify(meta, null, 2), "utf-8");
   }
@@ -203,6 +231,50 @@ export class BuildCache {
     return { entries, totalBytes };
   }
 
+  /**
+   * List cache entries with their metadata
+   */
+  async list(): Promise<BuildCacheEntry[]> {
+    if (!existsSync(this.cacheDir)) {
+      return [];
+    }
+
+    const entries: BuildCacheEntry[] = [];
+    const subdirs = await readdir(this.cacheDir);
+
+    for (const subdir of subdirs) {
+      const subdirPath = join(this.cacheDir, subdir);
+      try {
+        const subdirStat = await stat(subdirPath);
+        if (subdirStat.isDirectory()) {
+          const files = await readdir(subdirPath);
+          for (const file of files) {
+            if (file.endsWith(".meta.json")) {
+              try {
+                const meta: CacheEntryMeta = JSON.parse(
+                  await readFile(join(subdirPath, file), "utf-8")
+                );
+                const cacheKey = file.replace(".meta.json", "");
+                entries.push({
+                  key: cacheKey,
+                  path: this.getCachePath(cacheKey),
+                  size: meta.size,
+                  createdAt: meta.createdAt,
+                });
+              } catch {
+                // Skip invalid meta files
+              }
+            }
+          }
+        }
+      } catch {
+        // Skip inaccessible directories
+      }
+    }
+
+    return entries;
+  }
+
   /**
    * Prune cache entries older than maxAge (in milliseconds)
    */
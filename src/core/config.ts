@@ -1,7 +1,19 @@
 import { z } from "zod";
 import yaml from "yaml";
 import { readFile } from "fs/promises";
+import { dirname, resolve } from "path";
 import { zodToJsonSchema } from "zod-to-json-schema";
+import { parseSectionSelector, SECTION_SELECTOR_SYNTAX } from "./selectors.js";
+import { isFileOperationPatch } from "./file-operations.js";
+import {
+  FILE_VARIABLES,
+  findVariables,
+  INTERPOLATED_FIELDS,
+  INTERPOLATION_SYNTAX,
+  type Snippet,
+  type VariableReference,
+  type VariableScope,
+} from "./interpolation.js";
 
 // Common fields for all patch operations
 const onNoMatchSchema = z.enum(["skip", "warn", "error"]).default("warn");
@@ -14,6 +26,61 @@ const patchValidationSchema = z.object({
   notMatches: z.string().optional(),
 }).optional();
 
+// Section selector used by section operations (slug, path, title, regex, level, nth)
+const sectionSelectorSchema = z
+  .string()
+  .superRefine((selector, ctx) => {
+    try {
+      parseSectionSelector(selector);
+    } catch (err) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  })
+  .describe(SECTION_SELECTOR_SYNTAX);
+
+// Restricts a text replacement or line operation (WITHIN_OPS) to part of the
+// file: the frontmatter, the body, or a section's content below its header
+// (with children unless includeChildren is false). Other ops reject it.
+const withinSchema = z
+  .union([
+    z.enum(["frontmatter", "body"]),
+    z.object({
+      section: sectionSelectorSchema,
+      includeChildren: z.boolean().optional(),
+    }),
+  ])
+  .describe(
+    "Scope for replace, replace-regex, insert-after-line, insert-before-line, replace-line, " +
+      "delete-between and replace-between; other operations reject it."
+  )
+  .optional();
+
+// Frontmatter predicates a file must satisfy for a content patch to apply,
+// keyed by dot-notation path (all must hold). A plain value is shorthand for
+// { equals: value }; `not` matches a missing key too.
+const whereValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+const wherePredicateSchema = z.union([
+  whereValueSchema,
+  z
+    .object({
+      equals: whereValueSchema.optional(),
+      in: z.array(whereValueSchema).optional(),
+      exists: z.boolean().optional(),
+      not: whereValueSchema.optional(),
+      arrayContains: whereValueSchema.optional(),
+    })
+    .strict()
+    .refine((predicate) => Object.keys(predicate).length > 0, {
+      message: "Expected at least one of equals, in, exists, not, arrayContains",
+    }),
+]);
+
+const whereSchema = z.record(wherePredicateSchema).optional();
+
 const patchBaseSchema = z.object({
   id: z.string().optional(),
   extends: z.string().optional(),
@@ -22,8 +89,20 @@ const patchBaseSchema = z.object({
   onNoMatch: onNoMatchSchema.optional(),
   validate: patchValidationSchema,
   group: z.string().optional(),
+  within: withinSchema,
+  where: whereSchema,
 });
 
+// Which matches a replace or line operation changes: the first, the last,
+// all of them, or the nth (1-based). expectCount requires an exact number of
+// matches, otherwise the patch is handled like a non-match (onNoMatch).
+const occurrenceSchema = z.union([z.enum(["first", "last", "all"]), z.number().int().min(1)]);
+
+const occurrenceFields = {
+  occurrence: occurrenceSchema.optional(),
+  expectCount: z.number().int().min(0).optional(),
+};
+
 // Global validator schema (M2)
 const validatorSchema = z.object({
   name: z.string(),
@@ -32,8 +111,57 @@ const validatorSchema = z.object({
   matches: z.string().optional(),
   notMatches: z.string().optional(),
   frontmatterRequired: z.array(z.string()).optional(),
+  // Check relative links and anchors against the whole output file set
+  linksResolve: z.boolean().optional(),
 });
 
+// Authentication for private HTTP resources (M3). Secrets are read from
+// environment variables at fetch time and never stored in the config.
+const resourceAuthSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("bearer"),
+    tokenEnv: z.string(),
+  }),
+  z.object({
+    type: z.literal("basic"),
+    usernameEnv: z.string(),
+    passwordEnv: z.string(),
+  }),
+  z.object({
+    type: z.literal("header"),
+    header: z.string(),
+    valueEnv: z.string(),
+  }),
+]);
+
+// Structured resource entry for remote resources that need extra settings
+const resourceEntrySchema = z.object({
+  url: z.string(),
+  auth: resourceAuthSchema.optional(),
+  // Expected sha256 of the downloaded file or archive (HTTP only)
+  sha256: z
+    .string()
+    .regex(/^[a-fA-F0-9]{64}$/, "sha256 must be a 64-character hex digest")
+    .optional(),
+});
+
+// A resource is either a pattern/URL string or a structured entry
+const resourceSchema = z.union([z.string(), resourceEntrySchema]);
+
+// Allowlists for remote resources (M3). Nested configs can only narrow them.
+const securitySchema = z.object({
+  // Hostnames; "*.example.com" matches any subdomain of example.com
+  allowedHosts: z.array(z.string()).optional(),
+  // git@host:org/repo URLs use "ssh", GitHub shorthand uses "https"
+  allowedProtocols: z
+    .array(z.enum(["https", "http", "ssh", "git"]))
+    .describe(
+      "URL schemes remote resources may use. scp-style git URLs (git@host:org/repo) count as ssh, " +
+        "GitHub shorthand as https; git only covers git:// URLs."
+    )
+    .optional(),
+}).optional();
+
 // Watch hooks schema (for watch mode event triggers)
 const watchHooksSchema = z.object({
   onStart: z.array(z.string()).optional(),
@@ -41,47 +169,100 @@ const watchHooksSchema = z.object({
   onError: z.array(z.string()).optional(),
 }).optional();
 
+// Reusable patch content: inline text, or a file relative to the config
+const snippetSchema = z.union([
+  z.string(),
+  z.object({ file: z.string() }).strict(),
+]);
+
+// Content text of a patch, interpolated per file (see INTERPOLATION_SYNTAX)
+const templateStringSchema = z.string().describe(INTERPOLATION_SYNTAX);
+
+// A file to load a content field from instead, resolved when the config is loaded
+const contentFileSchema = z
+  .string()
+  .describe(
+    "Path to a file holding the text, relative to the config that declares the patch. " +
+      "Loaded like the inline field, including interpolation; set one or the other."
+  );
+
+/**
+ * Patch operations that can be scoped with `within`: text replacements and
+ * line operations. Other ops locate their own targets in the whole file.
+ */
+export const WITHIN_OPS: ReadonlySet<string> = new Set([
+  "replace",
+  "replace-regex",
+  "insert-after-line",
+  "insert-before-line",
+  "replace-line",
+  "delete-between",
+  "replace-between",
+]);
+
+/**
+ * Content fields that can be loaded from a file instead, by op
+ * (`contentFile` for `content`, `newFile` for `new`, `replacementFile` for `replacement`)
+ */
+export const FILE_BACKED_FIELDS: Readonly<Record<string, "content" | "new" | "replacement">> = {
+  replace: "new",
+  "replace-line": "replacement",
+  "replace-section": "content",
+  "prepend-to-section": "content",
+  "append-to-section": "content",
+  "insert-after-line": "content",
+  "insert-before-line": "content",
+  "replace-between": "content",
+  "replace-code-block": "content",
+  "create-file": "content",
+};
+
 // Replace operation schema
 const replacePatchSchema = patchBaseSchema.extend({
   op: z.literal("replace"),
-  old: z.string(),
-  new: z.string(),
+  old: z.string().min(1),
+  new: templateStringSchema.optional(),
+  newFile: contentFileSchema.optional(),
+  ...occurrenceFields,
 });
 
 // Replace-regex operation schema
 const replaceRegexPatchSchema = patchBaseSchema.extend({
   op: z.literal("replace-regex"),
   pattern: z.string(),
-  replacement: z.string(),
+  replacement: templateStringSchema,
   flags: z.string().optional(),
 });
 
 // Remove-section operation schema
 const removeSectionPatchSchema = patchBaseSchema.extend({
   op: z.literal("remove-section"),
-  id: z.string(),
+  id: sectionSelectorSchema,
   includeChildren: z.boolean().default(true),
 });
 
 // Replace-section operation schema
 const replaceSectionPatchSchema = patchBaseSchema.extend({
   op: z.literal("replace-section"),
-  id: z.string(),
-  content: z.string(),
+  id: sectionSelectorSchema,
+  content: templateStringSchema.optional(),
+  contentFile: contentFileSchema.optional(),
 });
 
 // Prepend-to-section operation schema
 const prependToSectionPatchSchema = patchBaseSchema.extend({
   op: z.literal("prepend-to-section"),
-  id: z.string(),
-  content: z.string(),
+  id: sectionSelectorSchema,
+  content: templateStringSchema.optional(),
+  contentFile: contentFileSchema.optional(),
 });
 
 // Append-to-section operation schema
 const appendToSectionPatchSchema = patchBaseSchema.extend({
   op: z.literal("append-to-section"),
-  id: z.string(),
-  content: z.string(),
+  id: sectionSelectorSchema,
+  content: templateStringSchema.optional(),
+  contentFile: contentFileSchema.optional(),
 });
 
 // Set-frontmatter operation schema (M2)
@@ -105,9 +286,47 @@ const renameFrontmatterPatchSchema = patchBaseSchema.extend({
 });
 
 // Merge-frontmatter operation schema (M2)
+// strategy decides how arrays present on both sides are merged: replaced
+// (default), concatenated, or extended with the values they don't contain yet
 const mergeFrontmatterPatchSchema = patchBaseSchema.extend({
   op: z.literal("merge-frontmatter"),
   values: z.record(z.unknown()),
+  strategy: z.enum(["replace", "concat", "union"]).optional(),
+});
+
+// Frontmatter array operation schemas
+// key is a dot-notation path to an array. A value that is itself an array
+// appends or removes each of its elements.
+const frontmatterArrayValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.array(z.unknown()),
+  z.record(z.unknown()),
+]);
+
+// Appends values the array doesn't contain yet (creating the array if needed)
+const appendToFrontmatterPatchSchema = patchBaseSchema.extend({
+  op: z.literal("append-to-frontmatter"),
+  key: z.string(),
+  value: frontmatterArrayValueSchema,
+});
+
+const removeFromFrontmatterPatchSchema = patchBaseSchema.extend({
+  op: z.literal("remove-from-frontmatter"),
+  key: z.string(),
+  value: frontmatterArrayValueSchema,
+});
+
+const dedupeFrontmatterPatchSchema = patchBaseSchema.extend({
+  op: z.literal("dedupe-frontmatter"),
+  key: z.string(),
+});
+
+const sortFrontmatterPatchSchema = patchBaseSchema.extend({
+  op: z.literal("sort-frontmatter"),
+  key: z.string(),
+  order: z.enum(["asc", "desc"]).optional(),
 });
 
 // Insert-after-line operation schema (M2)
@@ -117,7 +336,9 @@ const insertAfterLinePatchSchema = patchBaseSchema.extend({
   match: z.string().optional(),
   pattern: z.string().optional(),
   regex: z.boolean().optional(),
-  content: z.string(),
+  content: templateStringSchema.optional(),
+  contentFile: contentFileSchema.optional(),
+  ...occurrenceFields,
 });
 
 // Insert-before-line operation schema (M2)
@@ -127,7 +348,9 @@ const insertBeforeLinePatchSchema = patchBaseSchema.extend({
   match: z.string().optional(),
   pattern: z.string().optional(),
   regex: z.boolean().optional(),
-  content: z.string(),
+  content: templateStringSchema.optional(),
+  contentFile: contentFileSchema.optional(),
+  ...occurrenceFields,
 });
 
 // Replace-line operation schema (M2)
@@ -137,7 +360,9 @@ const replaceLinePatchSchema = patchBaseSchema.extend({
   match: z.string().optional(),
   pattern: z.string().optional(),
   regex: z.boolean().optional(),
-  replacement: z.string(),
+  replacement: templateStringSchema.optional(),
+  replacementFile: contentFileSchema.optional(),
+  ...occurrenceFields,
 });
 
 // Delete-between operation schema (M2)
@@ -153,32 +378,227 @@ const replaceBetweenPatchSchema = patchBaseSchema.extend({
   op: z.literal("replace-between"),
   start: z.string(),
   end: z.string(),
-  content: z.string(),
+  content: templateStringSchema.optional(),
+  contentFile: contentFileSchema.optional(),
   inclusive: z.boolean().default(false),
 });
 
 // Rename-header operation schema (M2)
 const renameHeaderPatchSchema = patchBaseSchema.extend({
   op: z.literal("rename-header"),
-  id: z.string(),
-  new: z.string(),
+  id: sectionSelectorSchema,
+  new: templateStringSchema,
 });
 
 // Move-section operation schema (M2)
 const moveSectionPatchSchema = patchBaseSchema.extend({
   op: z.literal("move-section"),
-  id: z.string(),
-  after: z.string().optional(),
-  before: z.string().optional(),
+  id: sectionSelectorSchema,
+  after: sectionSelectorSchema.optional(),
+  before: sectionSelectorSchema.optional(),
 });
 
 // Change-section-level operation schema (M2)
 const changeSectionLevelPatchSchema = patchBaseSchema.extend({
   op: z.literal("change-section-level"),
-  id: z.string(),
+  id: sectionSelectorSchema,
   delta: z.number(),
 });
 
+// Insert-section operation schema
+// Placement: exactly one of after/before (a sibling) or firstChildOf/lastChildOf (a parent)
+const insertSectionPatchSchema = patchBaseSchema.extend({
+  op: z.literal("insert-section"),
+  level: z.number().int().min(1).max(6),
+  title: templateStringSchema,
+  content: templateStringSchema.default(""),
+  after: sectionSelectorSchema.optional(),
+  before: sectionSelectorSchema.optional(),
+  firstChildOf: sectionSelectorSchema.optional(),
+  lastChildOf: sectionSelectorSchema.optional(),
+});
+
+// Table locator fields shared by table operations: the first table inside the
+// selected section and/or whose header row contains all the listed columns
+const tableLocatorFields = {
+  section: sectionSelectorSchema.optional(),
+  header: z.array(z.string()).optional(),
+};
+
+// Table cell values may be written as YAML scalars
+const tableCellSchema = z.union([z.string(), z.number(), z.boolean()]).transform(String);
+
+// Table-add-row operation schema
+// Cells are given in column order, or by column name (missing columns are left empty)
+const tableAddRowPatchSchema = patchBaseSchema.extend({
+  op: z.literal("table-add-row"),
+  ...tableLocatorFields,
+  row: z.union([z.array(tableCellSchema), z.record(tableCellSchema)]),
+  position: z.enum(["start", "end"]).optional(),
+});
+
+// Table-remove-rows operation schema
+// Note: Either 'match' (exact cell text) or 'pattern' should be provided (validated at runtime)
+const tableRemoveRowsPatchSchema = patchBaseSchema.extend({
+  op: z.literal("table-remove-rows"),
+  ...tableLocatorFields,
+  column: z.string(),
+  match: z.string().optional(),
+  pattern: z.string().optional(),
+});
+
+// Table-set-cell operation schema
+// The row is the one whose keyColumn (default: first column) cell equals key
+const tableSetCellPatchSchema = patchBaseSchema.extend({
+  op: z.literal("table-set-cell"),
+  ...tableLocatorFields,
+  keyColumn: z.string().optional(),
+  key: tableCellSchema,
+  column: z.string(),
+  value: tableCellSchema,
+});
+
+// Table-add-column operation schema
+const tableAddColumnPatchSchema = patchBaseSchema.extend({
+  op: z.literal("table-add-column"),
+  ...tableLocatorFields,
+  column: z.string(),
+  default: tableCellSchema.optional(),
+  after: z.string().optional(),
+  align: z.enum(["left", "center", "right"]).optional(),
+});
+
+// Table-remove-column operation schema
+const tableRemoveColumnPatchSchema = patchBaseSchema.extend({
+  op: z.literal("table-remove-column"),
+  ...tableLocatorFields,
+  column: z.string(),
+});
+
+// Table-sort operation schema
+const tableSortPatchSchema = patchBaseSchema.extend({
+  op: z.literal("table-sort"),
+  ...tableLocatorFields,
+  column: z.string(),
+  order: z.enum(["asc", "desc"]).optional(),
+  numeric: z.boolean().optional(),
+});
+
+// List locator fields shared by list operations: the nth (1-based, default 1)
+// list inside the selected section, or in the whole document
+const listLocatorFields = {
+  section: sectionSelectorSchema.optional(),
+  list: z.number().int().min(1).optional(),
+};
+
+// List-add-item operation schema
+// Placement: position (start/end, default end), index (1-based position the
+// new top-level item takes) or after/before the first item whose text contains
+// the given string
+const listAddItemPatchSchema = patchBaseSchema.extend({
+  op: z.literal("list-add-item"),
+  ...listLocatorFields,
+  item: templateStringSchema,
+  position: z.enum(["start", "end"]).optional(),
+  index: z
+    .number()
+    .int()
+    .min(1)
+    .describe("1-based position the new item takes among the top-level items")
+    .optional(),
+  after: z.string().optional(),
+  before: z.string().optional(),
+});
+
+// List-remove-items operation schema
+// Note: Either 'match' (item text contains) or 'pattern' should be provided (validated at runtime)
+const listRemoveItemsPatchSchema = patchBaseSchema.extend({
+  op: z.literal("list-remove-items"),
+  ...listLocatorFields,
+  match: z.string().optional(),
+  pattern: z.string().optional(),
+});
+
+// List-replace-item operation schema
+// Note: Either 'match' (item text contains) or 'pattern' should be provided (validated at runtime)
+const listReplaceItemPatchSchema = patchBaseSchema.extend({
+  op: z.literal("list-replace-item"),
+  ...listLocatorFields,
+  match: z.string().optional(),
+  pattern: z.string().optional(),
+  item: templateStringSchema,
+});
+
+// Code block locator fields shared by code block operations. Every matching
+// fenced block is targeted unless index (1-based among the matches) is given
+const codeBlockLocatorFields = {
+  section: sectionSelectorSchema.optional(),
+  language: z.string().optional(),
+  contains: z.string().optional(),
+  index: z.number().int().min(1).describe("1-based index among the matching code blocks").optional(),
+};
+
+// Replace-code-block operation schema (replaces the block body)
+const replaceCodeBlockPatchSchema = patchBaseSchema.extend({
+  op: z.literal("replace-code-block"),
+  ...codeBlockLocatorFields,
+  content: templateStringSchema.optional(),
+  contentFile: contentFileSchema.optional(),
+});
+
+// Replace-in-code-block operation schema
+// Note: Either 'old'/'new' or 'pattern'/'replacement' should be provided (validated at runtime)
+const replaceInCodeBlockPatchSchema = patchBaseSchema.extend({
+  op: z.literal("replace-in-code-block"),
+  ...codeBlockLocatorFields,
+  old: z.string().optional(),
+  new: templateStringSchema.optional(),
+  pattern: z.string().optional(),
+  replacement: templateStringSchema.optional(),
+  flags: z.string().optional(),
+});
+
+// Change-code-block-language operation schema (new info string)
+const changeCodeBlockLanguagePatchSchema = patchBaseSchema.extend({
+  op: z.literal("change-code-block-language"),
+  ...codeBlockLocatorFields,
+  new: z.string(),
+});
+
+// Remove-code-block operation schema
+const removeCodeBlockPatchSchema = patchBaseSchema.extend({
+  op: z.literal("remove-code-block"),
+  ...codeBlockLocatorFields,
+});
+
+// Generate-toc operation schema
+// Writes a table of contents built from the file's headers at that point in
+// the patch list, between start/end marker lines (default <!-- toc --> and
+// <!-- /toc -->) or as the content of a section above its first subsection.
+// Headers outside minLevel-maxLevel (default 2-6) and excluded sections,
+// with their subsections, are left out.
+const generateTocPatchSchema = patchBaseSchema.extend({
+  op: z.literal("generate-toc"),
+  section: sectionSelectorSchema.optional(),
+  start: z.string().optional(),
+  end: z.string().optional(),
+  minLevel: z.number().int().min(1).max(6).optional(),
+  maxLevel: z.number().int().min(1).max(6).optional(),
+  excludeSections: z.array(sectionSelectorSchema).optional(),
+});
+
+// Rewrite-links operation schema
+// Rewrites inline, reference-style and autolink targets: URL prefixes and hosts
+// via mappings, relative targets of files moved by file operations (relative),
+// and anchors of headers renamed by rename-header (anchors)
+const rewriteLinksPatchSchema = patchBaseSchema.extend({
+  op: z.literal("rewrite-links"),
+  prefixes: z.record(z.string()).optional(),
+  hosts: z.record(z.string()).optional(),
+  relative: z.boolean().optional(),
+  anchors: z.boolean().optional(),
+});
+
 // Copy-file operation schema (M3)
 const copyFilePatchSchema = patchBaseSchema.extend({
   op: z.literal("copy-file"),
@@ -206,6 +626,17 @@ const moveFilePatchSchema = patchBaseSchema.extend({
   dest: z.string(),
 });
 
+// Create-file operation schema: a new output file from inline content or a
+// content file, created with the other file operations
+const createFilePatchSchema = patchBaseSchema.extend({
+  op: z.literal("create-file"),
+  dest: z.string(),
+  content: templateStringSchema.optional(),
+  contentFile: contentFileSchema.optional(),
+  // When dest already exists: fail the build (default), replace it, or keep it
+  onConflict: z.enum(["error", "overwrite", "skip"]).optional(),
+});
+
 // Union of all patch operation schemas with explicit op
 const opPatchSchema = z.discriminatedUnion("op", [
   replacePatchSchema,
@@ -218,6 +649,10 @@ const opPatchSchema = z.discriminatedUnion("op", [
   removeFrontmatterPatchSchema,
   renameFrontmatterPatchSchema,
   mergeFrontmatterPatchSchema,
+  appendToFrontmatterPatchSchema,
+  removeFromFrontmatterPatchSchema,
+  dedupeFrontmatterPatchSchema,
+  sortFrontmatterPatchSchema,
   insertAfterLinePatchSchema,
   insertBeforeLinePatchSchema,
   replaceLinePatchSchema,
@@ -226,10 +661,27 @@ const opPatchSchema = z.discriminatedUnion("op", [
   renameHeaderPatchSchema,
   moveSectionPatchSchema,
   changeSectionLevelPatchSchema,
+  insertSectionPatchSchema,
+  tableAddRowPatchSchema,
+  tableRemoveRowsPatchSchema,
+  tableSetCellPatchSchema,
+  tableAddColumnPatchSchema,
+  tableRemoveColumnPatchSchema,
+  tableSortPatchSchema,
+  listAddItemPatchSchema,
+  listRemoveItemsPatchSchema,
+  listReplaceItemPatchSchema,
+  replaceCodeBlockPatchSchema,
+  replaceInCodeBlockPatchSchema,
+  changeCodeBlockLanguagePatchSchema,
+  removeCodeBlockPatchSchema,
+  generateTocPatchSchema,
+  rewriteLinksPatchSchema,
   copyFilePatchSchema,
   renameFilePatchSchema,
   deleteFilePatchSchema,
   moveFilePatchSchema,
+  createFilePatchSchema,
 ]);
 
 // Extending patch schema - allows patches that inherit from a base patch via extends
@@ -246,10 +698,16 @@ const extendingPatchSchema = patchBaseSchema.extend({
   flags: z.string().optional(),
   // Section fields
   content: z.string().optional(),
+  // Content file fields
+  contentFile: z.string().optional(),
+  newFile: z.string().optional(),
+  replacementFile: z.string().optional(),
   includeChildren: z.boolean().optional(),
   // Line operation fields
   match: z.string().optional(),
   regex: z.boolean().optional(),
+  occurrence: occurrenceSchema.optional(),
+  expectCount: z.number().int().min(0).optional(),
   // Between operation fields
   start: z.string().optional(),
   end: z.string().optional(),
@@ -259,14 +717,41 @@ const extendingPatchSchema = patchBaseSchema.extend({
   before: z.string().optional(),
   // Change-section-level fields
   delta: z.number().optional(),
+  // Insert-section fields
+  level: z.number().int().min(1).max(6).optional(),
+  title: z.string().optional(),
+  firstChildOf: z.string().optional(),
+  lastChildOf: z.string().optional(),
+  // Table operation fields
+  section: z.string().optional(),
+  header: z.array(z.string()).optional(),
+  column: z.string().optional(),
+  // List operation fields
+  list: z.number().int().min(1).optional(),
+  item: z.string().optional(),
+  // Code block operation fields
+  language: z.string().optional(),
+  contains: z.string().optional(),
+  index: z.number().int().min(1).describe("1-based, as on list-add-item and code block operations").optional(),
+  // Generate-toc fields
+  minLevel: z.number().int().min(1).max(6).optional(),
+  maxLevel: z.number().int().min(1).max(6).optional(),
+  excludeSections: z.array(z.string()).optional(),
+  // Rewrite-links fields
+  prefixes: z.record(z.string()).optional(),
+  hosts: z.record(z.string()).optional(),
+  relative: z.boolean().optional(),
+  anchors: z.boolean().optional(),
   // File operation fields
   src: z.string().optional(),
   dest: z.string().optional(),
   rename: z.string().optional(),
+  onConflict: z.enum(["error", "overwrite", "skip"]).optional(),
   // Frontmatter fields
   key: z.string().optional(),
   value: z.union([z.string(), z.number(), z.boolean(), z.array(z.unknown()), z.record(z.unknown())]).optional(),
   values: z.record(z.unknown()).optional(),
+  strategy: z.enum(["replace", "concat", "union"]).optional(),
 }).passthrough();
 
 // Combined patch schema: either a full patch with op, or an extending patch without op
@@ -277,15 +762,114 @@ const kustomarkConfigSchema = z.object({
   apiVersion: z.literal("kustomark/v1"),
   kind: z.literal("Kustomization"),
   output: z.string(),
-  resources: z.array(z.string()),
+  resources: z.array(resourceSchema),
   patches: z.array(patchSchema).optional(),
   onNoMatch: onNoMatchSchema.optional(),
   validators: z.array(validatorSchema).optional(),
   watch: watchHooksSchema,
+  security: securitySchema,
+  // Variables for ${vars.<name>} and snippets for ${snippets.<name>} in
+  // patch content. Nested configs inherit both and can override them.
+  vars: z.record(z.string()).describe(INTERPOLATION_SYNTAX).optional(),
+  snippets: z.record(snippetSchema).describe(INTERPOLATION_SYNTAX).optional(),
+}).superRefine((config, ctx) => {
+  // Every ${file.*} reference must resolve. vars and snippets may be
+  // inherited, so resolveVariableScope checks them.
+  for (const [i, patch] of (config.patches ?? []).entries()) {
+    for (const field of INTERPOLATED_FIELDS) {
+      const text = (patch as Record<string, unknown>)[field];
+      if (typeof text !== "string") {
+        continue;
+      }
+      for (const reference of findVariables(text)) {
+        const known =
+          reference.namespace === "file"
+            ? FILE_VARIABLES.has(reference.name)
+            : reference.namespace === "frontmatter"
+              ? reference.name !== ""
+              : true;
+        if (!known) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["patches", i, field],
+            message: `Unknown variable "${reference.raw}"`,
+          });
+        }
+      }
+    }
+
+    const record = patch as Record<string, unknown>;
+
+    // Other ops would silently ignore a within scope
+    if (patch.within && typeof record.op === "string" && !WITHIN_OPS.has(record.op)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["patches", i, "within"],
+        message: `'within' only applies to ${[...WITHIN_OPS].join(", ")}, not ${record.op}`,
+      });
+    }
+
+    // File operations act on whole files, before frontmatter is read
+    if (patch.where && isFileOperationPatch(patch)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["patches", i, "where"],
+        message: `'where' only applies to content patches, not ${patch.op}`,
+      });
+    }
+
+    // A table of contents needs a non-empty level range
+    if (
+      record.op === "generate-toc" &&
+      typeof record.minLevel === "number" &&
+      typeof record.maxLevel === "number" &&
+      record.minLevel > record.maxLevel
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["patches", i, "minLevel"],
+        message: `minLevel (${record.minLevel}) must not be greater than maxLevel (${record.maxLevel})`,
+      });
+    }
+
+    // An inserted section goes next to a sibling or into a parent, never both
+    if (record.op === "insert-section") {
+      const placements = ["after", "before", "firstChildOf", "lastChildOf"].filter(
+        (key) => record[key] !== undefined
+      );
+      if (placements.length !== 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["patches", i],
+          message: "insert-section requires exactly one of after, before, firstChildOf or lastChildOf",
+        });
+      }
+    }
+
+    // A file-backed field is set inline or from a file, not both
+    const field = typeof record.op === "string" ? FILE_BACKED_FIELDS[record.op] : undefined;
+    if (field) {
+      const fileField = `${field}File`;
+      if (record[field] !== undefined && record[fileField] !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["patches", i, fileField],
+          message: `Set either ${field} or ${fileField}, not both`,
+        });
+      } else if (record[field] === undefined && record[fileField] === undefined && !patch.extends) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["patches", i, field],
+          message: `Required: set ${field} or ${fileField}`,
+        });
+      }
+    }
+  }
 });
 
 // Export TypeScript types derived from schemas
 export type OnNoMatch = z.infer<typeof onNoMatchSchema>;
+export type Occurrence = z.infer<typeof occurrenceSchema>;
 export type ReplacePatch = z.infer<typeof replacePatchSchema>;
 export type ReplaceRegexPatch = z.infer<typeof replaceRegexPatchSchema>;
 export type RemoveSectionPatch = z.infer<typeof removeSectionPatchSchema>;
@@ -296,6 +880,10 @@ export type SetFrontmatterPatch = z.infer<typeof setFrontmatterPatchSchema>;
 export type RemoveFrontmatterPatch = z.infer<typeof removeFrontmatterPatchSchema>;
 export type RenameFrontmatterPatch = z.infer<typeof renameFrontmatterPatchSchema>;
 export type MergeFrontmatterPatch = z.infer<typeof mergeFrontmatterPatchSchema>;
+export type AppendToFrontmatterPatch = z.infer<typeof appendToFrontmatterPatchSchema>;
+export type RemoveFromFrontmatterPatch = z.infer<typeof removeFromFrontmatterPatchSchema>;
+export type DedupeFrontmatterPatch = z.infer<typeof dedupeFrontmatterPatchSchema>;
+export type SortFrontmatterPatch = z.infer<typeof sortFrontmatterPatchSchema>;
 export type InsertAfterLinePatch = z.infer<typeof insertAfterLinePatchSchema>;
 export type InsertBeforeLinePatch = z.infer<typeof insertBeforeLinePatchSchema>;
 export type ReplaceLinePatch = z.infer<typeof replaceLinePatchSchema>;
@@ -304,13 +892,38 @@ export type ReplaceBetweenPatch = z.infer<typeof replaceBetweenPatchSchema>;
 export type RenameHeaderPatch = z.infer<typeof renameHeaderPatchSchema>;
 export type MoveSectionPatch = z.infer<typeof moveSectionPatchSchema>;
 export type ChangeSectionLevelPatch = z.infer<typeof changeSectionLevelPatchSchema>;
+export type InsertSectionPatch = z.infer<typeof insertSectionPatchSchema>;
+export type TableAddRowPatch = z.infer<typeof tableAddRowPatchSchema>;
+export type TableRemoveRowsPatch = z.infer<typeof tableRemoveRowsPatchSchema>;
+export type TableSetCellPatch = z.infer<typeof tableSetCellPatchSchema>;
+export type TableAddColumnPatch = z.infer<typeof tableAddColumnPatchSchema>;
+export type TableRemoveColumnPatch = z.infer<typeof tableRemoveColumnPatchSchema>;
+export type TableSortPatch = z.infer<typeof tableSortPatchSchema>;
+export type ListAddItemPatch = z.infer<typeof listAddItemPatchSchema>;
+export type ListRemoveItemsPatch = z.infer<typeof listRemoveItemsPatchSchema>;
+export type ListReplaceItemPatch = z.infer<typeof listReplaceItemPatchSchema>;
+export type ReplaceCodeBlockPatch = z.infer<typeof replaceCodeBlockPatchSchema>;
+export type ReplaceInCodeBlockPatch = z.infer<typeof replaceInCodeBlockPatchSchema>;
+export type ChangeCodeBlockLanguagePatch = z.infer<typeof changeCodeBlockLanguagePatchSchema>;
+export type RemoveCodeBlockPatch = z.infer<typeof removeCodeBlockPatchSchema>;
+export type GenerateTocPatch = z.infer<typeof generateTocPatchSchema>;
+export type RewriteLinksPatch = z.infer<typeof rewriteLinksPatchSchema>;
 export type CopyFilePatch = z.infer<typeof copyFilePatchSchema>;
 export type RenameFilePatch = z.infer<typeof renameFilePatchSchema>;
 export type DeleteFilePatch = z.infer<typeof deleteFilePatchSchema>;
 export type MoveFilePatch = z.infer<typeof moveFilePatchSchema>;
+export type CreateFilePatch = z.infer<typeof createFilePatchSchema>;
 export type PatchValidation = z.infer<typeof patchValidationSchema>;
+export type PatchWithin = NonNullable<z.infer<typeof withinSchema>>;
+export type PatchWhere = NonNullable<z.infer<typeof whereSchema>>;
+export type WherePredicate = z.infer<typeof wherePredicateSchema>;
 export type Validator = z.infer<typeof validatorSchema>;
+export type ResourceAuth = z.infer<typeof resourceAuthSchema>;
+export type ResourceEntry = z.infer<typeof resourceEntrySchema>;
+export type Resource = z.infer<typeof resourceSchema>;
+export type SecurityConfig = NonNullable<z.infer<typeof securitySchema>>;
 export type WatchHooks = z.infer<typeof watchHooksSchema>;
+export type SnippetConfig = z.infer<typeof snippetSchema>;
 export type ExtendingPatch = z.infer<typeof extendingPatchSchema>;
 export type OpPatch = z.infer<typeof opPatchSchema>;
 export type Patch = z.infer<typeof patchSchema>;
@@ -321,8 +934,17 @@ export {
   onNoMatchSchema,
   patchBaseSchema,
   patchValidationSchema,
+  withinSchema,
+  whereSchema,
+  sectionSelectorSchema,
+  occurrenceSchema,
   validatorSchema,
+  resourceAuthSchema,
+  resourceEntrySchema,
+  resourceSchema,
+  securitySchema,
   watchHooksSchema,
+  snippetSchema,
   replacePatchSchema,
   replaceRegexPatchSchema,
   removeSectionPatchSchema,
@@ -333,6 +955,10 @@ export {
   removeFrontmatterPatchSchema,
   renameFrontmatterPatchSchema,
   mergeFrontmatterPatchSchema,
+  appendToFrontmatterPatchSchema,
+  removeFromFrontmatterPatchSchema,
+  dedupeFrontmatterPatchSchema,
+  sortFrontmatterPatchSchema,
   insertAfterLinePatchSchema,
   insertBeforeLinePatchSchema,
   replaceLinePatchSchema,
@@ -341,10 +967,27 @@ export {
   renameHeaderPatchSchema,
   moveSectionPatchSchema,
   changeSectionLevelPatchSchema,
+  insertSectionPatchSchema,
+  tableAddRowPatchSchema,
+  tableRemoveRowsPatchSchema,
+  tableSetCellPatchSchema,
+  tableAddColumnPatchSchema,
+  tableRemoveColumnPatchSchema,
+  tableSortPatchSchema,
+  listAddItemPatchSchema,
+  listRemoveItemsPatchSchema,
+  listReplaceItemPatchSchema,
+  replaceCodeBlockPatchSchema,
+  replaceInCodeBlockPatchSchema,
+  changeCodeBlockLanguagePatchSchema,
+  removeCodeBlockPatchSchema,
+  generateTocPatchSchema,
+  rewriteLinksPatchSchema,
   copyFilePatchSchema,
   renameFilePatchSchema,
   deleteFilePatchSchema,
   moveFilePatchSchema,
+  createFilePatchSchema,
   opPatchSchema,
   extendingPatchSchema,
   patchSchema,
@@ -370,7 +1013,143 @@ export function parseConfig(yamlString: string): KustomarkConfig {
  */
 export async function loadConfigFile(filePath: string): Promise<KustomarkConfig> {
   const content = await readFile(filePath, "utf-8");
-  return parseConfig(content);
+  return loadPatchFiles(parseConfig(content), filePath);
+}
+
+/**
+ * Fill in the content fields of patches that load them from files
+ * (`contentFile`, `newFile`, `replacementFile`). Paths are relative to the
+ * config; the file field is kept so callers can list the files.
+ * @param config - A validated kustomark config
+ * @param configPath - Path to the config file
+ * @returns The config with the file contents inlined
+ * @throws Error if a file cannot be read
+ */
+export async function loadPatchFiles(config: KustomarkConfig, configPath: string): Promise<KustomarkConfig> {
+  const configDir = dirname(resolve(configPath));
+
+  for (const [i, patch] of (config.patches ?? []).entries()) {
+    const record = patch as Record<string, unknown>;
+    for (const field of ["content", "new", "replacement"]) {
+      const file = record[`${field}File`];
+      if (typeof file !== "string") {
+        continue;
+      }
+      try {
+        record[field] = await readFile(resolve(configDir, file), "utf-8");
+      } catch {
+        throw new Error(`Patch ${i + 1}: ${field}File not found: ${file} (in ${configPath})`);
+      }
+    }
+  }
+
+  return config;
+}
+
+/**
+ * List the files a config's patches load their content from, and its
+ * snippet files, as absolute paths.
+ * @param config - A validated kustomark config
+ * @param configPath - Path to the config file
+ * @returns Absolute paths, without duplicates
+ */
+export function getPatchFiles(config: KustomarkConfig, configPath: string): string[] {
+  const configDir = dirname(resolve(configPath));
+  const files = new Set<string>();
+
+  for (const patch of config.patches ?? []) {
+    for (const fileField of ["contentFile", "newFile", "replacementFile"]) {
+      const file = (patch as Record<string, unknown>)[fileField];
+      if (typeof file === "string") {
+        files.add(resolve(configDir, file));
+      }
+    }
+  }
+  for (const snippet of Object.values(config.snippets ?? {})) {
+    if (typeof snippet !== "string") {
+      files.add(resolve(configDir, snippet.file));
+    }
+  }
+
+  return [...files];
+}
+
+/**
+ * Resolve the vars and snippets a config's patches can reference: the
+ * parent's, overridden by the config's own. Snippet files are read relative
+ * to the config.
+ * @param config - A validated kustomark config
+ * @param configPath - Path to the config file
+ * @param parent - Scope of the config that includes this one as a resource
+ * @returns The config's vars and snippets
+ * @throws Error if a snippet file cannot be read or a patch references an
+ *   unknown variable
+ */
+export async function resolveVariableScope(
+  config: KustomarkConfig,
+  configPath: string,
+  parent?: VariableScope
+): Promise<VariableScope> {
+  const absoluteConfigPath = resolve(configPath);
+  const snippets: Record<string, Snippet> = { ...parent?.snippets };
+
+  for (const [name, snippet] of Object.entries(config.snippets ?? {})) {
+    if (typeof snippet === "string") {
+      snippets[name] = { content: snippet, configPath: absoluteConfigPath };
+      continue;
+    }
+    try {
+      const content = await readFile(resolve(dirname(absoluteConfigPath), snippet.file), "utf-8");
+      snippets[name] = { content, configPath: absoluteConfigPath, file: snippet.file };
+    } catch {
+      throw new Error(`Snippet '${name}' file not found: ${snippet.file} (in ${configPath})`);
+    }
+  }
+
+  const scope: VariableScope = { vars: { ...parent?.vars, ...config.vars }, snippets };
+
+  // ${file.*} is checked again for text loaded from content files
+  const isKnown = (reference: VariableReference): boolean =>
+    reference.namespace === "vars"
+      ? Object.hasOwn(scope.vars, reference.name)
+      : reference.namespace === "snippets"
+        ? Object.hasOwn(scope.snippets, reference.name)
+        : reference.namespace === "file"
+          ? FILE_VARIABLES.has(reference.name)
+          : reference.name !== "";
+
+  // Snippet bodies are interpolated once, so they can't include other snippets
+  for (const name of Object.keys(config.snippets ?? {})) {
+    const references = findVariables(snippets[name].content);
+    const nested = references.find((reference) => reference.namespace === "snippets");
+    if (nested) {
+      throw new Error(`Snippet '${name}' includes "${nested.raw}": snippets can't include other snippets (in ${configPath})`);
+    }
+    const unknown = [...new Set(references.filter((reference) => !isKnown(reference)).map((reference) => reference.raw))];
+    if (unknown.length > 0) {
+      throw new Error(`Unknown variable ${unknown.map((raw) => `"${raw}"`).join(", ")} in snippet '${name}' (in ${configPath})`);
+    }
+  }
+
+  const unknown = new Set<string>();
+  for (const patch of config.patches ?? []) {
+    for (const field of INTERPOLATED_FIELDS) {
+      const text = (patch as Record<string, unknown>)[field];
+      if (typeof text !== "string") {
+        continue;
+      }
+      for (const reference of findVariables(text)) {
+        if (!isKnown(reference)) {
+          unknown.add(reference.raw);
+        }
+      }
+    }
+  }
+  if (unknown.size > 0) {
+    throw new Error(`Unknown variable ${[...unknown].map((raw) => `"${raw}"`).join(", ")} in ${configPath}`);
+  }
+
+  return scope;
 }
 
 /**
@@ -1,7 +1,15 @@
 import { dirname, join, resolve, relative } from "path";
-import { loadConfigFile } from "./config.js";
-import { resolveResources } from "./resources.js";
-import { resolveExtends } from "./patches.js";
+import { readFile } from "fs/promises";
+import { loadConfigFile, resolveVariableScope, type OpPatch, type PatchWhere } from "./config.js";
+import { findVariables, INTERPOLATED_FIELDS, type VariableScope } from "./interpolation.js";
+import { getResourceUrl, resolveResources } from "./resources.js";
+import {
+  findSection,
+  matchesWhere,
+  parseSections,
+  resolveExtends,
+  type Section,
+} from "./patches.js";
 
 /**
  * A config in the resolution chain
@@ -29,9 +37,52 @@ export interface ExplainResult {
 export interface FilePatchInfo {
   config: string;
   op: string;
+  /** Source section a section op's selector resolves to (null if none) */
+  section?: FileSectionInfo | null;
+  /** Frontmatter predicates the file must satisfy */
+  where?: PatchWhere;
+  /** Whether the source file's frontmatter satisfies `where` */
+  whereMatches?: boolean;
+  /** Snippets the patch content references */
+  snippets?: FileSnippetInfo[];
   [key: string]: unknown;
 }
 
+/**
+ * A snippet used by a patch, and the config it came from
+ */
+export interface FileSnippetInfo {
+  name: string;
+  /** Config that defines the snippet (the patch's own, or one it inherits from) */
+  config: string;
+  /** File the snippet was read from, relative to its config */
+  file?: string;
+}
+
+/**
+ * A section of the source file that section patches can target
+ */
+export interface FileSectionInfo {
+  id: string;
+  level: number;
+  title: string;
+  /** 1-based line of the header in the source file */
+  line: number;
+}
+
+/**
+ * Section patch operations whose `id` is a section selector
+ */
+const SECTION_OPS = new Set([
+  "remove-section",
+  "replace-section",
+  "prepend-to-section",
+  "append-to-section",
+  "rename-header",
+  "move-section",
+  "change-section-level",
+]);
+
 /**
  * Result of explaining a specific file's lineage
  */
@@ -39,6 +90,8 @@ export interface FileLineageResult {
   file: string;
   source: string;
   patches: FilePatchInfo[];
+  /** Sections of the source file (omitted if the source can't be read) */
+  sections?: FileSectionInfo[];
 }
 
 /**
@@ -71,7 +124,7 @@ async function buildChain(
 
     for (const resource of config.resources) {
       // Check if this is a reference to another kustomark config
-      const resourcePath = resolve(configDir, resource);
+      const resourcePath = resolve(configDir, getResourceUrl(resource));
 
       // If it's a directory, look for kustomark.yaml
       try {
@@ -158,13 +211,39 @@ export async function explainConfig(
   };
 }
 
+/**
+ * List the snippets a patch's content fields reference, in order
+ */
+function findSnippetsForPatch(patch: OpPatch, scope: VariableScope | undefined): FileSnippetInfo[] {
+  const snippets: FileSnippetInfo[] = [];
+  for (const field of INTERPOLATED_FIELDS) {
+    const text = (patch as Record<string, unknown>)[field];
+    if (typeof text !== "string") {
+      continue;
+    }
+    for (const reference of findVariables(text)) {
+      const snippet = scope?.snippets[reference.name];
+      if (reference.namespace !== "snippets" || !snippet || snippets.some((s) => s.name === reference.name)) {
+        continue;
+      }
+      snippets.push({
+        name: reference.name,
+        config: relative(process.cwd(), dirname(snippet.configPath)) || "root",
+        ...(snippet.file ? { file: snippet.file } : {}),
+      });
+    }
+  }
+  return snippets;
+}
+
 /**
  * Find patches that apply to a specific file
  */
 async function findPatchesForFile(
   configPath: string,
   filePath: string,
-  visited: VisitedSet
+  visited: VisitedSet,
+  parentScope?: VariableScope
 ): Promise<FilePatchInfo[]> {
   const resolvedPath = resolve(configPath);
 
@@ -178,12 +257,16 @@ async function findPatchesForFile(
     const configDir = dirname(resolvedPath);
     const configName =
       relative(process.cwd(), dirname(resolvedPath)) || "root";
+    // Unresolvable snippets are reported by validate; keep explaining
+    const scope = await resolveVariableScope(config, resolvedPath, parentScope).catch(
+      () => parentScope
+    );
 
     const patches: FilePatchInfo[] = [];
 
     // First, check sub-configs
     for (const resource of config.resources) {
-      const resourcePath = resolve(configDir, resource);
+      const resourcePath = resolve(configDir, getResourceUrl(resource));
       try {
         const stat = await import("fs").then((m) =>
           m.promises.stat(resourcePath)
@@ -197,7 +280,8 @@ async function findPatchesForFile(
             const subPatches = await findPatchesForFile(
               subConfigPath,
               filePath,
-              visited
+              visited,
+              scope
             );
             patches.push(...subPatches);
           } catch {
@@ -247,17 +331,99 @@ async function findPatchesForFile(
             case "prepend-to-section":
             case "append-to-section":
             case "rename-header":
-            case "move-section":
             case "change-section-level":
               patchInfo.id = patch.id;
               break;
+            case "move-section":
+              patchInfo.id = patch.id;
+              patchInfo.after = patch.after;
+              patchInfo.before = patch.before;
+              break;
+            case "insert-section":
+              patchInfo.title = patch.title;
+              patchInfo.level = patch.level;
+              patchInfo.after = patch.after;
+              patchInfo.before = patch.before;
+              patchInfo.firstChildOf = patch.firstChildOf;
+              patchInfo.lastChildOf = patch.lastChildOf;
+              break;
+            case "table-add-row":
+            case "table-remove-rows":
+            case "table-set-cell":
+            case "table-add-column":
+            case "table-remove-column":
+            case "table-sort":
+              patchInfo.table = { section: patch.section, header: patch.header };
+              if (patch.op !== "table-add-row") {
+                patchInfo.column = patch.column;
+              }
+              break;
+            case "list-add-item":
+            case "list-remove-items":
+            case "list-replace-item":
+              patchInfo.list = { section: patch.section, nth: patch.list ?? 1 };
+              if (patch.op !== "list-add-item") {
+                patchInfo.match = patch.match ?? patch.pattern;
+              }
+              break;
+            case "replace-code-block":
+            case "replace-in-code-block":
+            case "change-code-block-language":
+            case "remove-code-block":
+              patchInfo.codeBlock = {
+                section: patch.section,
+                language: patch.language,
+                contains: patch.contains,
+                index: patch.index,
+              };
+              break;
+            case "generate-toc":
+              patchInfo.toc = patch.section
+                ? { section: patch.section }
+                : { start: patch.start ?? "<!-- toc -->", end: patch.end ?? "<!-- /toc -->" };
+              patchInfo.minLevel = patch.minLevel ?? 2;
+              patchInfo.maxLevel = patch.maxLevel ?? 6;
+              patchInfo.excludeSections = patch.excludeSections;
+              break;
+            case "rewrite-links":
+              patchInfo.prefixes = patch.prefixes;
+              patchInfo.hosts = patch.hosts;
+              patchInfo.relative = patch.relative ?? true;
+              patchInfo.anchors = patch.anchors ?? true;
+              break;
             case "set-frontmatter":
               patchInfo.key = patch.key;
               patchInfo.value = patch.value;
               break;
             case "remove-frontmatter":
+            case "dedupe-frontmatter":
               patchInfo.key = patch.key;
               break;
+            case "append-to-frontmatter":
+            case "remove-from-frontmatter":
+              patchInfo.key = patch.key;
+              patchInfo.value = patch.value;
+              break;
+            case "sort-frontmatter":
+              patchInfo.key = patch.key;
+              patchInfo.order = patch.order ?? "asc";
+              break;
+            case "merge-frontmatter":
+              patchInfo.strategy = patch.strategy ?? "replace";
+              break;
+          }
+
+          if (patch.within) {
+            patchInfo.within = patch.within;
+          }
+
+          if (patch.where) {
+            patchInfo.where = patch.where;
+          }
+
+          const snippets = findSnippetsForPatch(patch, scope);
+          if (snippets.length > 0) {
+            patchInfo.snippets = snippets;
           }
 
           patches.push(patchInfo);
@@ -291,7 +457,7 @@ async function findSourceFile(
     const configDir = dirname(resolvedPath);
 
     for (const resource of config.resources) {
-      const resourcePath = resolve(configDir, resource);
+      const resourcePath = resolve(configDir, getResourceUrl(resource));
 
       // Check if it's a directory with a kustomark config
       try {
@@ -330,7 +496,7 @@ async function findSourceFile(
           );
           if (matchingResource) {
             // This resource matches the file
-            const sourcePath = join(configDir, resource.replace(/\*.*$/, ""), filePath);
+            const sourcePath = join(configDir, getResourceUrl(resource).replace(/\*.*$/, ""), filePath);
             return relative(process.cwd(), sourcePath);
           }
         } catch {
@@ -359,9 +525,40 @@ export async function explainFile(
   // Try to find the source
   const source = await findSourceFile(resolvedPath, filePath, new Set());
 
+  // List the sections of the source (code blocks and comments are skipped)
+  let sections: FileSectionInfo[] | undefined;
+  if (source) {
+    try {
+      const content = await readFile(resolve(source), "utf-8");
+      const parsed = parseSections(content);
+      const toInfo = (section: Section): FileSectionInfo => ({
+        id: section.id,
+        level: section.level,
+        title: section.title,
+        line: section.headerLine + 1,
+      });
+      sections = parsed.map(toInfo);
+
+      // Show which source section each selector resolves to (null if none)
+      // and whether the source frontmatter satisfies each `where`
+      for (const patch of patches) {
+        if (SECTION_OPS.has(patch.op) && typeof patch.id === "string") {
+          const match = findSection(parsed, patch.id);
+          patch.section = match ? toInfo(match) : null;
+        }
+        if (patch.where) {
+          patch.whereMatches = matchesWhere(content, patch.where);
+        }
+      }
+    } catch {
+      // Source isn't a readable local file
+    }
+  }
+
   return {
     file: filePath,
     source: source || filePath,
     patches,
+    sections,
   };
 }
@@ -5,7 +5,9 @@ import type {
   RenameFilePatch,
   DeleteFilePatch,
   MoveFilePatch,
+  CreateFilePatch,
 } from "./config.js";
+import { interpolate, type VariableScope } from "./interpolation.js";
 
 /**
  * Result of applying file operations
@@ -34,8 +36,8 @@ export interface ResourceFile {
 /**
  * Check if a patch is a file operation
  */
-export function isFileOperationPatch(patch: Patch): patch is CopyFilePatch | RenameFilePatch | DeleteFilePatch | MoveFilePatch {
-  return patch.op === "copy-file" || patch.op === "rename-file" || patch.op === "delete-file" || patch.op === "move-file";
+export function isFileOperationPatch(patch: Patch): patch is CopyFilePatch | RenameFilePatch | DeleteFilePatch | MoveFilePatch | CreateFilePatch {
+  return patch.op === "copy-file" || patch.op === "rename-file" || patch.op === "delete-file" || patch.op === "move-file" || patch.op === "create-file";
 }
 
 /**
@@ -156,17 +158,82 @@ function applyMoveFile(
   }
 }
 
+/**
+ * Apply create-file operation.
+ * Adds a new file from the patch content, interpolated with the config's
+ * vars and snippets. If the destination already exists, onConflict decides:
+ * error (default) throws, overwrite replaces it, skip keeps it.
+ */
+function applyCreateFile(
+  patch: CreateFilePatch,
+  resources: ResourceFile[],
+  result: FileOperationResult,
+  scope: Partial<VariableScope>
+): void {
+  const { dest, content, onConflict = "error" } = patch;
+  if (content === undefined) {
+    throw new Error(`Patch 'create-file' has no content: set content or contentFile (loaded by loadConfigFile)`);
+  }
+
+  // The existing file may be a resource, a renamed/moved one, or an earlier copy
+  const renamedFrom = [...result.renamedFiles].find(([, newPath]) => newPath === dest)?.[0];
+  const resourceExists =
+    resources.some((r) => r.relativePath === dest) &&
+    !result.deletedFiles.has(dest) &&
+    !result.renamedFiles.has(dest);
+  const exists = resourceExists || renamedFrom !== undefined || result.addedFiles.has(dest);
+
+  if (exists && onConflict === "error") {
+    throw new Error(`create-file: '${dest}' already exists (set onConflict to overwrite or skip)`);
+  }
+  if (exists && onConflict === "skip") {
+    return;
+  }
+
+  const filled = interpolate(content, {
+    frontmatter: {},
+    filePath: dest,
+    vars: scope.vars ?? {},
+    snippets: scope.snippets ?? {},
+  });
+  if (filled.missing.length > 0) {
+    // Handled like a content patch that did not match
+    const message = `create-file: ${filled.missing.join(", ")} has no value for '${dest}'`;
+    if (patch.onNoMatch === "error") {
+      throw new Error(message);
+    }
+    if (patch.onNoMatch !== "skip") {
+      result.warnings.push(message);
+    }
+    return;
+  }
+
+  // Overwriting drops the existing file, so the output keeps one copy
+  if (resourceExists) {
+    result.deletedFiles.add(dest);
+  }
+  if (renamedFrom !== undefined) {
+    result.deletedFiles.add(renamedFrom);
+  }
+  result.addedFiles.set(dest, filled.text);
+  result.operationsApplied++;
+}
+
 /**
  * Apply file operations from patches to a set of resources.
  * Returns information about files to add, delete, and rename.
  *
  * @param patches - Array of patches (will filter to file operations)
  * @param resources - Array of resource files to operate on
+ * @param scope - Vars and snippets for create-file content
  * @returns FileOperationResult with add/delete/rename information
+ * @throws Error if create-file hits an existing file with onConflict "error",
+ *   or has a variable without a value and onNoMatch "error"
  */
 export function applyFileOperations(
   patches: Patch[],
-  resources: ResourceFile[]
+  resources: ResourceFile[],
+  scope: Partial<VariableScope> = {}
 ): FileOperationResult {
   const result: FileOperationResult = {
     addedFiles: new Map(),
@@ -190,6 +257,9 @@ export function applyFileOperations(
       case "move-file":
         applyMoveFile(patch, resources, result);
         break;
+      case "create-file":
+        applyCreateFile(patch, resources, result, scope);
+        break;
       default:
         // Not a file operation, skip
         break;
@@ -232,7 +302,7 @@ export function applyFileOperationResults(
     }
   }
 
-  // Add new files from copy operations
+  // Add new files from copy and create operations
   for (const [path, content] of operations.addedFiles) {
     result.push({
       relativePath: path,
@@ -51,7 +51,8 @@ export function calculateHash(content: string): string {
 }
 
 /**
- * Calculate hash for an array of patches
+ * Calculate hash for an array of patches. Patches from loadConfigFile carry
+ * the text of their content files, so editing one changes the hash.
  */
 export function calculatePatchesHash(patches: unknown[]): string {
   const hash = createHash("sha256");
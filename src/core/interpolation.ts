@@ -0,0 +1,157 @@
+/**
+ * A `${namespace.name}` variable reference in a content field
+ */
+export interface VariableReference {
+  namespace: "frontmatter" | "file" | "vars" | "snippets";
+  /** Frontmatter key (dot notation), file property, config variable or snippet name */
+  name: string;
+  /** The reference as written, e.g. `${vars.product}` */
+  raw: string;
+}
+
+/**
+ * A reusable block of patch content from a config's `snippets`
+ */
+export interface Snippet {
+  content: string;
+  /** Absolute path of the config that defines the snippet */
+  configPath: string;
+  /** File the content was read from, as written in the config */
+  file?: string;
+}
+
+/**
+ * Config variables and snippets in effect for a config; nested configs
+ * inherit their parent's and override them by name
+ */
+export interface VariableScope {
+  vars: Record<string, string>;
+  snippets: Record<string, Snippet>;
+}
+
+/**
+ * Per-file values that variable references resolve against
+ */
+export interface InterpolationValues {
+  frontmatter: Record<string, unknown>;
+  /** Path of the file relative to the output directory */
+  filePath: string;
+  vars: Record<string, string>;
+  snippets: Record<string, Snippet>;
+}
+
+/**
+ * Interpolation syntax, used in the JSON schema.
+ */
+export const INTERPOLATION_SYNTAX =
+  "Supports ${frontmatter.<key>} (dot notation; arrays are joined with \", \"), " +
+  "${file.path}, ${file.basename}, ${file.dir}, ${file.name} (basename without extension), " +
+  "${vars.<name>} from the config's vars and ${snippets.<name>} from its snippets " +
+  "(snippet text is interpolated too, but cannot reference other snippets). " +
+  "Write $${ for a literal ${. Other ${...} text is left as is; " +
+  "unknown file properties, vars or snippets are validation errors.";
+
+/**
+ * Patch fields whose strings are interpolated
+ */
+export const INTERPOLATED_FIELDS = ["content", "new", "replacement", "title", "item", "value"] as const;
+
+/**
+ * Properties available as `${file.<name>}`
+ */
+export const FILE_VARIABLES: ReadonlySet<string> = new Set(["path", "basename", "dir", "name"]);
+
+/**
+ * An escaped `$${`, or a variable reference in one of the known namespaces
+ */
+const VARIABLE_REGEX = /\$\$\{|\$\{(frontmatter|file|vars|snippets)\.([^}]*)\}/g;
+
+/**
+ * Find the variable references in a string (escaped `$${` is skipped).
+ */
+export function findVariables(text: string): VariableReference[] {
+  const references: VariableReference[] = [];
+  for (const match of text.matchAll(VARIABLE_REGEX)) {
+    if (match[1]) {
+      references.push({
+        namespace: match[1] as VariableReference["namespace"],
+        name: match[2],
+        raw: match[0],
+      });
+    }
+  }
+  return references;
+}
+
+/**
+ * Look up a variable reference, or undefined if it has no value.
+ * Snippets come back as written; interpolate fills in their variables.
+ */
+function lookupVariable(reference: VariableReference, values: InterpolationValues): string | undefined {
+  if (reference.namespace === "snippets") {
+    return Object.hasOwn(values.snippets, reference.name) ? values.snippets[reference.name].content : undefined;
+  }
+
+  if (reference.namespace === "vars") {
+    return Object.hasOwn(values.vars, reference.name) ? values.vars[reference.name] : undefined;
+  }
+
+  if (reference.namespace === "file") {
+    const basename = values.filePath.split("/").pop()!;
+    const dir = values.filePath.includes("/")
+      ? values.filePath.slice(0, values.filePath.lastIndexOf("/"))
+      : ".";
+    const name = basename.includes(".") ? basename.slice(0, basename.lastIndexOf(".")) : basename;
+    return { path: values.filePath, basename, dir, name }[reference.name];
+  }
+
+  let value: unknown = values.frontmatter;
+  for (const part of reference.name.split(".")) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    return value.map(String).join(", ");
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Replace the variable references in a string and unescape `$${`.
+ * @param text - A content field of a patch
+ * @param values - Frontmatter, file path and config variables of the file
+ * @returns The interpolated text and the references that had no value
+ */
+export function interpolate(
+  text: string,
+  values: InterpolationValues
+): { text: string; missing: string[] } {
+  const missing: string[] = [];
+
+  const result = text.replace(VARIABLE_REGEX, (match, namespace?: string, name?: string) => {
+    if (!namespace) {
+      return "${";
+    }
+    const reference = { namespace, name, raw: match } as VariableReference;
+    const value = lookupVariable(reference, values);
+    if (value === undefined) {
+      missing.push(match);
+      return match;
+    }
+    if (reference.namespace !== "snippets") {
+      return value;
+    }
+    // One level deep: a snippet's own snippet references have no value
+    const snippet = interpolate(value, { ...values, snippets: {} });
+    missing.push(...snippet.missing);
+    return snippet.text;
+  });
+
+  return { text: result, missing };
+}
@@ -1,5 +1,7 @@
 import type { KustomarkConfig } from "./config.js";
 import { minimatch } from "minimatch";
+import { checkSecurityPolicy, isRemoteResource, parseRemoteUrl } from "./remote.js";
+import { describeWhere, matchesWhere } from "./patches.js";
 
 /**
  * Lint issue severity
@@ -134,15 +136,19 @@ function checkRedundantPatches(config: KustomarkConfig): LintIssue[] {
       case "move-file":
         key = `move-file:${patch.match}`;
         break;
+      case "create-file":
+        key = `create-file:${patch.dest}`;
+        break;
       default:
         // For other patches, use a general key
         key = `${patch.op}:${JSON.stringify(patch)}`;
     }
 
-    // Add include/exclude to the key to differentiate patches with different file targets
+    // Add include/exclude and where to the key to differentiate patches with different file targets
     const includeKey = (patch.include || []).sort().join(",");
     const excludeKey = (patch.exclude || []).sort().join(",");
-    key = `${key}:include=${includeKey}:exclude=${excludeKey}`;
+    const whereKey = patch.where ? JSON.stringify(patch.where) : "";
+    key = `${key}:include=${includeKey}:exclude=${excludeKey}:where=${whereKey}`;
 
     if (seenPatches.has(key)) {
       const prevIndex = seenPatches.get(key)!;
@@ -246,6 +252,71 @@ function checkOverlappingPatches(config: KustomarkConfig): LintIssue[] {
   return issues;
 }
 
+/**
+ * Check remote resources against the config's security allowlists (no fetching)
+ */
+function checkRemoteSecurity(config: KustomarkConfig): LintIssue[] {
+  const issues: LintIssue[] = [];
+  if (!config.security) {
+    return issues;
+  }
+
+  for (const resource of config.resources) {
+    const url = typeof resource === "string" ? resource : resource.url;
+    if (typeof resource === "string" && !isRemoteResource(url)) {
+      continue;
+    }
+
+    const violation = checkSecurityPolicy(parseRemoteUrl(url), [config.security]);
+    if (violation) {
+      issues.push({
+        level: "error",
+        message: violation,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check `where` clauses never satisfied by the frontmatter of any source
+ * file the patch's globs match
+ */
+function checkWhere(
+  config: KustomarkConfig,
+  resources: Array<{ relativePath: string; content: string }>
+): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const patches = config.patches || [];
+
+  for (let i = 0; i < patches.length; i++) {
+    const patch = patches[i];
+    if (!patch.where) {
+      continue;
+    }
+
+    const include = patch.include || ["**/*"];
+    const exclude = patch.exclude || [];
+    const targets = resources.filter(
+      (resource) =>
+        include.some((pattern: string) => minimatch(resource.relativePath, pattern)) &&
+        !exclude.some((pattern: string) => minimatch(resource.relativePath, pattern))
+    );
+
+    // Files the globs don't match are reported by checkUnreachablePatches
+    if (targets.length > 0 && !targets.some((resource) => matchesWhere(resource.content, patch.where!))) {
+      issues.push({
+        level: "warning",
+        message: `Patch ${i + 1} (${patch.op}) 'where' (${describeWhere(patch.where)}) matches no files`,
+        patchIndex: i,
+      });
+    }
+  }
+
+  return issues;
+}
+
 /**
  * Lint a kustomark configuration for common issues
  */
@@ -259,6 +330,8 @@ export function lintConfig(
   issues.push(...checkUnreachablePatches(config, resources));
   issues.push(...checkRedundantPatches(config));
   issues.push(...checkOverlappingPatches(config));
+  issues.push(...checkRemoteSecurity(config));
+  issues.push(...checkWhere(config, resources));
 
   // Count issues by level
   const errorCount = issues.filter((i) => i.level === "error").length;
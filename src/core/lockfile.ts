@@ -3,6 +3,7 @@ import { join, dirname } from "path";
 import { createHash } from "crypto";
 import yaml from "yaml";
 import { z } from "zod";
+import { redactUrl } from "./remote.js";
 
 /**
  * Schema for a single locked resource entry
@@ -111,17 +112,19 @@ export function verifyIntegrity(
 }
 
 /**
- * Find a locked resource by URL
+ * Find a locked resource by URL (entries are keyed by the redacted URL)
  */
 export function findLockedResource(
   lockFile: LockFile,
   url: string
 ): LockedResource | undefined {
-  return lockFile.resources.find((r) => r.url === url);
+  const key = redactUrl(url);
+  return lockFile.resources.find((r) => r.url === key);
 }
 
 /**
- * Create a new locked resource entry
+ * Create a new locked resource entry. Credentials in the URL (and in an
+ * HTTP resource's resolved URL) are redacted, since lock files are committed.
  */
 export function createLockedResource(
   url: string,
@@ -129,8 +132,8 @@ export function createLockedResource(
   files: Array<{ relativePath: string; content: string }>
 ): LockedResource {
   return {
-    url,
-    resolved: resolvedRef,
+    url: redactUrl(url),
+    resolved: redactUrl(resolvedRef),
     integrity: calculateFilesIntegrity(files),
     fetched: new Date().toISOString(),
   };
@@ -177,7 +180,7 @@ export function removeFromLockFile(
 ): LockFile {
   return {
     ...lockFile,
-    resources: lockFile.resources.filter((r) => r.url !== url),
+    resources: lockFile.resources.filter((r) => r.url !== redactUrl(url)),
   };
 }
 
@@ -1,6 +1,7 @@
 import { minimatch } from "minimatch";
-import GithubSlugger from "github-slugger";
+import GithubSlugger, { slug } from "github-slugger";
 import yaml from "yaml";
+import { posix } from "path";
 import type {
   Patch,
   OpPatch,
@@ -14,6 +15,10 @@ import type {
   RemoveFrontmatterPatch,
   RenameFrontmatterPatch,
   MergeFrontmatterPatch,
+  AppendToFrontmatterPatch,
+  RemoveFromFrontmatterPatch,
+  DedupeFrontmatterPatch,
+  SortFrontmatterPatch,
   InsertAfterLinePatch,
   InsertBeforeLinePatch,
   ReplaceLinePatch,
@@ -22,9 +27,32 @@ import type {
   RenameHeaderPatch,
   MoveSectionPatch,
   ChangeSectionLevelPatch,
+  InsertSectionPatch,
+  TableAddRowPatch,
+  TableRemoveRowsPatch,
+  TableSetCellPatch,
+  TableAddColumnPatch,
+  TableRemoveColumnPatch,
+  TableSortPatch,
+  ListAddItemPatch,
+  ListRemoveItemsPatch,
+  ListReplaceItemPatch,
+  ReplaceCodeBlockPatch,
+  ReplaceInCodeBlockPatch,
+  ChangeCodeBlockLanguagePatch,
+  RemoveCodeBlockPatch,
+  GenerateTocPatch,
+  RewriteLinksPatch,
+  PatchWithin,
+  PatchWhere,
+  WherePredicate,
+  Occurrence,
   OnNoMatch,
 } from "./config.js";
-import { isFileOperationPatch } from "./file-operations.js";
+import { FILE_BACKED_FIELDS, WITHIN_OPS } from "./config.js";
+import { isFileOperationPatch, type ResourceFile } from "./file-operations.js";
+import { parseSectionSelector, type SectionSelectorSegment } from "./selectors.js";
+import { interpolate, INTERPOLATED_FIELDS, type Snippet } from "./interpolation.js";
 
 /**
  * Result of applying patches to content
@@ -33,18 +61,51 @@ export interface PatchResult {
   content: string;
   applied: number;
   warnings: string[];
+  /** Match counts for patches that support occurrence control */
+  occurrences: PatchOccurrences[];
+}
+
+/**
+ * How many matches a replace or line patch found and how many it changed
+ */
+export interface OccurrenceCount {
+  matched: number;
+  applied: number;
+}
+
+/**
+ * Occurrence counts for one patch, by its index in the resolved patch list
+ */
+export interface PatchOccurrences extends OccurrenceCount {
+  patchIndex: number;
+  op: string;
+}
+
+/**
+ * Outcome of applying a single patch
+ */
+interface PatchOutcome {
+  content: string;
+  applied: boolean;
+  occurrences?: OccurrenceCount;
 }
 
 /**
  * Represents a parsed markdown section
  */
-interface Section {
+export interface Section {
   id: string;
   level: number;
   startLine: number;
   endLine: number;
   headerLine: number;
+  /** Last line of the header (the underline of a setext header) */
+  headerEndLine: number;
   title: string;
+  /** "atx" for `# Title` headers, "setext" for underlined ones */
+  style: "atx" | "setext";
+  /** Closing hash sequence of an ATX header, e.g. " ##" in `## Title ##` */
+  closingSequence?: string;
 }
 
 /**
@@ -52,11 +113,31 @@ interface Section {
  */
 const HEADER_REGEX = /^(#{1,6})\s+(.+)$/;
 
+/**
+ * Closing sequence of an ATX header - hashes preceded by whitespace at the end
+ */
+const CLOSING_HASHES_REGEX = /\s+#+\s*$/;
+
+/**
+ * Setext underline pattern - "===" for level 1, "---" for level 2
+ */
+const SETEXT_UNDERLINE_REGEX = /^ {0,3}(=+|-+)[ \t]*$/;
+
+/**
+ * Lines that can't be the text of a setext header (list items, quotes, indented code)
+ */
+const NOT_SETEXT_TEXT_REGEX = /^(\s*([-*+]|\d+[.)])\s|\s*>| {4}|\t)/;
+
 /**
  * Explicit ID pattern - matches {#custom-id} at the end of a header
  */
 const EXPLICIT_ID_REGEX = /\s*\{#([a-zA-Z0-9_-]+)\}\s*$/;
 
+/**
+ * Code fence pattern - an opening or closing run of 3+ backticks or tildes
+ */
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})(.*)$/;
+
 /**
  * Generate a GitHub-style slug from a header title.
  * Uses github-slugger for compatibility with GitHub's slug generation.
@@ -72,35 +153,195 @@ function generateSlug(title: string, slugger: GithubSlugger): string {
   return slugger.slug(title);
 }
 
+/**
+ * Mark the lines that are literal text rather than markdown structure:
+ * YAML frontmatter, fenced code blocks (``` or ~~~, closed by a fence of the
+ * same character that is at least as long), indented code blocks and HTML
+ * comments. A "#" at the start of such a line is not a header.
+ */
+export function findLiteralLines(lines: string[]): boolean[] {
+  return scanLiteralLines(lines).literal;
+}
+
+/**
+ * A fenced code block found while scanning for literal lines
+ */
+interface FencedBlock {
+  /** 0-indexed line of the opening fence */
+  start: number;
+  /** 0-indexed closing fence line, or the last line if the fence is unclosed */
+  end: number;
+  closed: boolean;
+  /** Indentation of the opening fence */
+  indent: string;
+  /** Opening fence characters, e.g. ``` or ~~~~ */
+  fence: string;
+  /** Info string after the opening fence */
+  info: string;
+}
+
+/**
+ * Scan for literal lines (see findLiteralLines), also recording the
+ * fenced code blocks.
+ */
+function scanLiteralLines(lines: string[]): { literal: boolean[]; fences: FencedBlock[] } {
+  const literal: boolean[] = new Array(lines.length).fill(false);
+  const fences: FencedBlock[] = [];
+  let fence: { char: string; length: number } | null = null;
+  let inComment = false;
+  let inIndentedCode = false;
+  let previousBlank = true;
+  let start = 0;
+
+  // Frontmatter is YAML, where "# ..." is a comment and "---" closes the block
+  if (lines[0] === "---") {
+    const closing = lines.indexOf("---", 1);
+    if (closing !== -1) {
+      literal.fill(true, 0, closing + 1);
+      start = closing + 1;
+    }
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (fence) {
+      literal[i] = true;
+      const closeMatch = line.match(FENCE_REGEX);
+      if (
+        closeMatch &&
+        closeMatch[1][0] === fence.char &&
+        closeMatch[1].length >= fence.length &&
+        closeMatch[2].trim() === ""
+      ) {
+        fence = null;
+        fences[fences.length - 1].end = i;
+        fences[fences.length - 1].closed = true;
+      }
+      previousBlank = false;
+      continue;
+    }
+
+    if (inComment) {
+      literal[i] = true;
+      inComment = !line.includes("-->");
+      previousBlank = false;
+      continue;
+    }
+
+    const blank = line.trim() === "";
+
+    // Indented code can't interrupt a paragraph, but blank lines don't end it
+    if (!blank && /^( {4}|\t)/.test(line) && (previousBlank || inIndentedCode)) {
+      literal[i] = true;
+      inIndentedCode = true;
+      previousBlank = false;
+      continue;
+    }
+    if (!blank) {
+      inIndentedCode = false;
+    }
+
+    const openMatch = line.match(FENCE_REGEX);
+    // Backtick fences can't have backticks in their info string
+    if (openMatch && !(openMatch[1][0] === "`" && openMatch[2].includes("`"))) {
+      literal[i] = true;
+      fence = { char: openMatch[1][0], length: openMatch[1].length };
+      fences.push({
+        start: i,
+        end: lines.length - 1,
+        closed: false,
+        indent: line.match(/^\s*/)![0],
+        fence: openMatch[1],
+        info: openMatch[2].trim(),
+      });
+      previousBlank = false;
+      continue;
+    }
+
+    const commentStart = line.match(/^ {0,3}<!--/);
+    if (commentStart) {
+      literal[i] = true;
+      inComment = !line.slice(commentStart[0].length).includes("-->");
+    }
+
+    previousBlank = blank;
+  }
+
+  return { literal, fences };
+}
+
 /**
  * Parse markdown content and extract all sections with their boundaries.
+ * Recognises ATX headers (`## Title`, optionally closed with hashes) and
+ * setext headers (a line underlined with === or ---). Header-like lines
+ * inside frontmatter, code blocks and HTML comments are ignored.
  * Returns sections sorted by their start line.
  */
-function parseSections(content: string): Section[] {
+export function parseSections(content: string): Section[] {
   const lines = content.split("\n");
+  const literal = findLiteralLines(lines);
   const sections: Section[] = [];
   const slugger = new GithubSlugger();
 
   for (let i = 0; i < lines.length; i++) {
+    if (literal[i]) {
+      continue;
+    }
+
     const line = lines[i];
     const match = line.match(HEADER_REGEX);
+    let level: number;
+    let rawTitle: string;
+    let style: Section["style"];
+    let closingSequence: string | undefined;
 
     if (match) {
-      const level = match[1].length;
-      const rawTitle = match[2];
-
-      // Extract title without explicit ID for display
-      const title = rawTitle.replace(EXPLICIT_ID_REGEX, "").trim();
-      const id = generateSlug(rawTitle, slugger);
-
-      sections.push({
-        id,
-        level,
-        startLine: i,
-        headerLine: i,
-        endLine: lines.length - 1, // Will be adjusted below
-        title,
-      });
+      level = match[1].length;
+      rawTitle = match[2];
+      style = "atx";
+
+      const closingMatch = rawTitle.match(CLOSING_HASHES_REGEX);
+      if (closingMatch) {
+        closingSequence = closingMatch[0];
+        rawTitle = rawTitle.slice(0, closingMatch.index);
+      }
+    } else {
+      const underline = i + 1 < lines.length && !literal[i + 1]
+        ? lines[i + 1].match(SETEXT_UNDERLINE_REGEX)
+        : null;
+      // Only single-line paragraphs are treated as setext header text
+      const startsBlock =
+        i === 0 || lines[i - 1].trim() === "" || literal[i - 1] || HEADER_REGEX.test(lines[i - 1]);
+
+      if (!underline || line.trim() === "" || NOT_SETEXT_TEXT_REGEX.test(line) || !startsBlock) {
+        continue;
+      }
+
+      level = underline[1][0] === "=" ? 1 : 2;
+      rawTitle = line.trim();
+      style = "setext";
+    }
+
+    // Extract title without explicit ID for display
+    const title = rawTitle.replace(EXPLICIT_ID_REGEX, "").trim();
+    const id = generateSlug(rawTitle, slugger);
+
+    sections.push({
+      id,
+      level,
+      startLine: i,
+      headerLine: i,
+      headerEndLine: style === "setext" ? i + 1 : i,
+      endLine: lines.length - 1, // Will be adjusted below
+      title,
+      style,
+      closingSequence,
+    });
+
+    if (style === "setext") {
+      // Skip the underline
+      i++;
     }
   }
 
@@ -122,10 +363,55 @@ function parseSections(content: string): Section[] {
 }
 
 /**
- * Find a section by its ID.
+ * Check whether a section matches a single selector segment.
+ * A slug matches the section's ID, or the base slug of a repeated header
+ * whose ID was deduplicated (`example` matches `example-1`).
+ */
+function matchesSelectorSegment(section: Section, segment: SectionSelectorSegment): boolean {
+  if (segment.slug !== undefined && section.id !== segment.slug) {
+    const deduplicated =
+      section.id.startsWith(`${segment.slug}-`) &&
+      /^\d+$/.test(section.id.slice(segment.slug.length + 1)) &&
+      slug(section.title) === segment.slug;
+    if (!deduplicated) {
+      return false;
+    }
+  }
+  if (segment.title !== undefined && section.title !== segment.title) {
+    return false;
+  }
+  if (segment.titlePattern && !segment.titlePattern.test(section.title)) {
+    return false;
+  }
+  if (segment.level !== undefined && section.level !== segment.level) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Find the section addressed by a selector (see parseSectionSelector).
+ * Each path segment is resolved among the descendants of the section matched
+ * by the previous segment; without :nth() the first match in document order wins.
  */
-function findSectionById(sections: Section[], id: string): Section | undefined {
-  return sections.find((s) => s.id === id);
+export function findSection(sections: Section[], selector: string): Section | undefined {
+  let parent: Section | undefined;
+
+  for (const segment of parseSectionSelector(selector)) {
+    const scope = parent;
+    const candidates = sections.filter(
+      (s) =>
+        (!scope ||
+          (s.startLine > scope.startLine && s.startLine <= scope.endLine && s.level > scope.level)) &&
+        matchesSelectorSegment(s, segment)
+    );
+    parent = candidates[(segment.nth ?? 1) - 1];
+    if (!parent) {
+      return undefined;
+    }
+  }
+
+  return parent;
 }
 
 /**
@@ -139,7 +425,7 @@ function getSectionEndLine(
 ): number {
   if (!includeChildren) {
     // Find the start of the next section at any level
-    const sectionIndex = sections.findIndex((s) => s.id === section.id);
+    const sectionIndex = sections.indexOf(section);
     if (sectionIndex < sections.length - 1) {
       return sections[sectionIndex + 1].startLine - 1;
     }
@@ -201,6 +487,29 @@ function handleNoMatch(
   }
 }
 
+/**
+ * Explain why a patch has no text in its file-backed field
+ */
+function missingTextMessage(patch: OpPatch, field: "content" | "new" | "replacement"): string {
+  const file = (patch as Record<string, unknown>)[`${field}File`];
+  return typeof file === "string"
+    ? `Patch '${patch.op}' has no ${field}: ${field}File '${file}' was not loaded (use loadConfigFile)`
+    : `Patch '${patch.op}' has no ${field}: set ${field} or ${field}File`;
+}
+
+/**
+ * The text of a file-backed field (content, new or replacement).
+ * resolveExtends rejects patches without it, so this only throws for
+ * patches applied without going through it.
+ */
+function requireText(patch: OpPatch, field: "content" | "new" | "replacement"): string {
+  const text = (patch as Record<string, unknown>)[field];
+  if (typeof text !== "string") {
+    throw new Error(missingTextMessage(patch, field));
+  }
+  return text;
+}
+
 /**
  * Apply a replace patch - simple string replacement (all occurrences).
  */
@@ -209,21 +518,46 @@ function applyReplace(
   patch: ReplacePatch,
   warnings: string[],
   filePath: string
-): { content: string; applied: boolean } {
-  const { old: oldStr, new: newStr, onNoMatch } = patch;
+): PatchOutcome {
+  const { old: oldStr } = patch;
+  const newStr = requireText(patch, "new");
+  // The schema rejects this; patches built in code would match everywhere
+  if (oldStr === "") {
+    throw new Error("Patch 'replace' has an empty old string");
+  }
 
-  if (!content.includes(oldStr)) {
-    handleNoMatch(
-      onNoMatch,
-      `Patch 'replace' did not match: "${oldStr}" not found in ${filePath}`,
-      warnings
-    );
-    return { content, applied: false };
+  // Non-overlapping match positions, as split() would find them
+  const positions: number[] = [];
+  for (let pos = content.indexOf(oldStr); pos !== -1; pos = content.indexOf(oldStr, pos + oldStr.length)) {
+    positions.push(pos);
   }
 
-  // Replace all occurrences
-  const result = content.split(oldStr).join(newStr);
-  return { content: result, applied: true };
+  const selected = selectOccurrences(
+    positions.length,
+    patch,
+    "all",
+    `Patch 'replace' did not match: "${oldStr}" not found in ${filePath}`,
+    warnings,
+    filePath
+  );
+  if (!selected) {
+    return { content, applied: false, occurrences: { matched: positions.length, applied: 0 } };
+  }
+
+  // Rebuild the content, replacing only the selected occurrences
+  let result = "";
+  let last = 0;
+  for (const index of selected) {
+    result += content.slice(last, positions[index]) + newStr;
+    last = positions[index] + oldStr.length;
+  }
+  result += content.slice(last);
+
+  return {
+    content: result,
+    applied: true,
+    occurrences: { matched: positions.length, applied: selected.length },
+  };
 }
 
 /**
@@ -267,7 +601,7 @@ function applyRemoveSection(
   const { id, includeChildren, onNoMatch } = patch;
 
   const sections = parseSections(content);
-  const section = findSectionById(sections, id);
+  const section = findSection(sections, id);
 
   if (!section) {
     handleNoMatch(
@@ -303,10 +637,11 @@ function applyReplaceSection(
   warnings: string[],
   filePath: string
 ): { content: string; applied: boolean } {
-  const { id, content: newContent, onNoMatch } = patch;
+  const { id, onNoMatch } = patch;
+  const newContent = requireText(patch, "content");
 
   const sections = parseSections(content);
-  const section = findSectionById(sections, id);
+  const section = findSection(sections, id);
 
   if (!section) {
     handleNoMatch(
@@ -320,7 +655,7 @@ function applyReplaceSection(
   const lines = content.split("\n");
 
   // Keep the header line, replace everything until section end
-  const before = lines.slice(0, section.headerLine + 1);
+  const before = lines.slice(0, section.headerEndLine + 1);
   const after = lines.slice(section.endLine + 1);
 
   // Ensure newContent doesn't have trailing newline issues
@@ -340,10 +675,11 @@ function applyPrependToSection(
   warnings: string[],
   filePath: string
 ): { content: string; applied: boolean } {
-  const { id, content: prependContent, onNoMatch } = patch;
+  const { id, onNoMatch } = patch;
+  const prependContent = requireText(patch, "content");
 
   const sections = parseSections(content);
-  const section = findSectionById(sections, id);
+  const section = findSection(sections, id);
 
   if (!section) {
     handleNoMatch(
@@ -357,8 +693,8 @@ function applyPrependToSection(
   const lines = content.split("\n");
 
   // Insert after the header line
-  const before = lines.slice(0, section.headerLine + 1);
-  const after = lines.slice(section.headerLine + 1);
+  const before = lines.slice(0, section.headerEndLine + 1);
+  const after = lines.slice(section.headerEndLine + 1);
 
   // Ensure content is properly formatted
   const trimmedContent = prependContent.replace(/\n$/, "");
@@ -377,10 +713,11 @@ function applyAppendToSection(
   warnings: string[],
   filePath: string
 ): { content: string; applied: boolean } {
-  const { id, content: appendContent, onNoMatch } = patch;
+  const { id, onNoMatch } = patch;
+  const appendContent = requireText(patch, "content");
 
   const sections = parseSections(content);
-  const section = findSectionById(sections, id);
+  const section = findSection(sections, id);
 
   if (!section) {
     handleNoMatch(
@@ -410,6 +747,12 @@ function applyAppendToSection(
  */
 const FRONTMATTER_REGEX = /^---\n([\s\S]*?)\n---/;
 
+/**
+ * Frontmatter with its opening delimiter captured, allowing a leading BOM
+ * and CRLF line endings
+ */
+const FRONTMATTER_SPAN_REGEX = /^(\uFEFF?---\r?\n)([\s\S]*?)\r?\n---/;
+
 /**
  * Parse frontmatter from markdown content.
  * Returns the frontmatter object and the rest of the content.
@@ -629,11 +972,19 @@ function applyRenameFrontmatter(
 }
 
 /**
- * Deep merge two objects. Arrays are replaced, not concatenated.
+ * How merge-frontmatter combines arrays present in both objects
+ */
+type ArrayMergeStrategy = NonNullable<MergeFrontmatterPatch["strategy"]>;
+
+/**
+ * Deep merge two objects. Arrays are replaced by default; with "concat" the
+ * source array is appended and with "union" only its values the target
+ * array doesn't contain yet.
  */
 function deepMerge(
   target: Record<string, unknown>,
-  source: Record<string, unknown>
+  source: Record<string, unknown>,
+  strategy: ArrayMergeStrategy = "replace"
 ): Record<string, unknown> {
   const result = { ...target };
 
@@ -651,8 +1002,13 @@ function deepMerge(
     ) {
       result[key] = deepMerge(
         targetValue as Record<string, unknown>,
-        sourceValue as Record<string, unknown>
+        sourceValue as Record<string, unknown>,
+        strategy
       );
+    } else if (strategy !== "replace" && Array.isArray(sourceValue) && Array.isArray(targetValue)) {
+      result[key] = strategy === "concat"
+        ? [...targetValue, ...sourceValue]
+        : dedupeValues([...targetValue, ...sourceValue]);
     } else {
       result[key] = sourceValue;
     }
@@ -670,7 +1026,7 @@ function applyMergeFrontmatter(
   _warnings: string[],
   _filePath: string
 ): { content: string; applied: boolean } {
-  const { values } = patch;
+  const { values, strategy } = patch;
 
   const { frontmatter, body, hasFrontmatter } = parseFrontmatter(content);
 
@@ -678,7 +1034,7 @@ function applyMergeFrontmatter(
   const fm = frontmatter || {};
 
   // Deep merge the values
-  const merged = deepMerge(fm, values as Record<string, unknown>);
+  const merged = deepMerge(fm, values as Record<string, unknown>, strategy);
 
   // Serialize back
   const result = serializeFrontmatter(merged, hasFrontmatter ? body : "\n" + content);
@@ -687,207 +1043,381 @@ function applyMergeFrontmatter(
 }
 
 /**
- * Find the line number that matches the given pattern.
- * Returns -1 if no match is found.
+ * Compare frontmatter values structurally (arrays and objects by content).
  */
-function findMatchingLine(
-  lines: string[],
-  match: string | undefined,
-  pattern: string | undefined,
-  regex: boolean | undefined
-): number {
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    if (pattern !== undefined) {
-      // Use pattern (always regex)
-      const re = new RegExp(pattern);
-      if (re.test(line)) {
-        return i;
-      }
-    } else if (match !== undefined) {
-      if (regex) {
-        // Treat match as regex
-        const re = new RegExp(match);
-        if (re.test(line)) {
-          return i;
-        }
-      } else {
-        // Exact match (line contains the string)
-        if (line.includes(match)) {
-          return i;
-        }
-      }
-    }
-  }
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
 
-  return -1;
+/**
+ * Drop repeated values from an array, keeping the first occurrence.
+ */
+function dedupeValues(values: unknown[]): unknown[] {
+  return values.filter((value, i) => values.findIndex((other) => sameValue(other, value)) === i);
 }
 
+type FrontmatterArrayPatch =
+  | AppendToFrontmatterPatch
+  | RemoveFromFrontmatterPatch
+  | DedupeFrontmatterPatch
+  | SortFrontmatterPatch;
+
 /**
- * Apply an insert-after-line patch.
+ * Shared driver for frontmatter array patches: finds the array at the patch's
+ * key, lets `edit` change it and writes the frontmatter back. `edit` returns
+ * the new array, or a no-match reason.
  */
-function applyInsertAfterLine(
+function applyFrontmatterArrayPatch(
   content: string,
-  patch: InsertAfterLinePatch,
+  patch: FrontmatterArrayPatch,
   warnings: string[],
-  filePath: string
+  filePath: string,
+  edit: (values: unknown[]) => unknown[] | { noMatch: string }
 ): { content: string; applied: boolean } {
-  const { match, pattern, regex, content: insertContent, onNoMatch } = patch;
+  const { key, onNoMatch } = patch;
 
-  const lines = content.split("\n");
-  const lineIndex = findMatchingLine(lines, match, pattern, regex);
+  const { frontmatter, body, hasFrontmatter } = parseFrontmatter(content);
+  const fm = frontmatter || {};
+  let current = getNestedValue(fm, key);
+
+  if (current === undefined && patch.op === "append-to-frontmatter") {
+    current = [];
+  }
+
+  let reason: string | undefined;
+  if (patch.op !== "append-to-frontmatter" && !hasFrontmatter) {
+    reason = `no frontmatter in ${filePath}`;
+  } else if (current === undefined) {
+    reason = `key "${key}" not found in frontmatter of ${filePath}`;
+  } else if (!Array.isArray(current)) {
+    reason = `key "${key}" is not an array in frontmatter of ${filePath}`;
+  }
 
-  if (lineIndex === -1) {
+  const result = reason === undefined ? edit(current as unknown[]) : undefined;
+  if (!Array.isArray(result)) {
     handleNoMatch(
       onNoMatch,
-      `Patch 'insert-after-line' did not match: pattern not found in ${filePath}`,
+      `Patch '${patch.op}' did not match: ${reason ?? `${result!.noMatch} of ${filePath}`}`,
       warnings
     );
     return { content, applied: false };
   }
 
-  // Insert content after the matched line
-  const trimmedContent = insertContent.replace(/\n$/, "");
-  const before = lines.slice(0, lineIndex + 1);
-  const after = lines.slice(lineIndex + 1);
-
-  const result = [...before, trimmedContent, ...after].join("\n");
-
-  return { content: result, applied: true };
+  setNestedValue(fm, key, result);
+  return { content: serializeFrontmatter(fm, hasFrontmatter ? body : "\n" + content), applied: true };
 }
 
 /**
- * Apply an insert-before-line patch.
+ * Apply an append-to-frontmatter patch. Values already in the array are not
+ * added again.
  */
-function applyInsertBeforeLine(
+function applyAppendToFrontmatter(
   content: string,
-  patch: InsertBeforeLinePatch,
+  patch: AppendToFrontmatterPatch,
   warnings: string[],
   filePath: string
 ): { content: string; applied: boolean } {
-  const { match, pattern, regex, content: insertContent, onNoMatch } = patch;
-
-  const lines = content.split("\n");
-  const lineIndex = findMatchingLine(lines, match, pattern, regex);
+  const added = Array.isArray(patch.value) ? patch.value : [patch.value];
 
-  if (lineIndex === -1) {
-    handleNoMatch(
-      onNoMatch,
-      `Patch 'insert-before-line' did not match: pattern not found in ${filePath}`,
-      warnings
-    );
-    return { content, applied: false };
-  }
-
-  // Insert content before the matched line
-  const trimmedContent = insertContent.replace(/\n$/, "");
-  const before = lines.slice(0, lineIndex);
-  const after = lines.slice(lineIndex);
-
-  const result = [...before, trimmedContent, ...after].join("\n");
-
-  return { content: result, applied: true };
+  return applyFrontmatterArrayPatch(content, patch, warnings, filePath, (values) => [
+    ...values,
+    ...dedupeValues(added).filter((value) => !values.some((existing) => sameValue(existing, value))),
+  ]);
 }
 
 /**
- * Apply a replace-line patch.
+ * Apply a remove-from-frontmatter patch.
  */
-function applyReplaceLine(
+function applyRemoveFromFrontmatter(
   content: string,
-  patch: ReplaceLinePatch,
+  patch: RemoveFromFrontmatterPatch,
   warnings: string[],
   filePath: string
 ): { content: string; applied: boolean } {
-  const { match, pattern, regex, replacement, onNoMatch } = patch;
-
-  const lines = content.split("\n");
-  const lineIndex = findMatchingLine(lines, match, pattern, regex);
-
-  if (lineIndex === -1) {
-    handleNoMatch(
-      onNoMatch,
-      `Patch 'replace-line' did not match: pattern not found in ${filePath}`,
-      warnings
-    );
-    return { content, applied: false };
-  }
+  const removed = Array.isArray(patch.value) ? patch.value : [patch.value];
+
+  return applyFrontmatterArrayPatch(content, patch, warnings, filePath, (values) => {
+    const kept = values.filter((value) => !removed.some((r) => sameValue(r, value)));
+    return kept.length < values.length
+      ? kept
+      : { noMatch: `no matching value in "${patch.key}" in frontmatter` };
+  });
+}
 
-  // Replace the matched line
-  lines[lineIndex] = replacement;
+/**
+ * Apply a dedupe-frontmatter patch.
+ */
+function applyDedupeFrontmatter(
+  content: string,
+  patch: DedupeFrontmatterPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  return applyFrontmatterArrayPatch(content, patch, warnings, filePath, dedupeValues);
+}
 
-  return { content: lines.join("\n"), applied: true };
+/**
+ * Apply a sort-frontmatter patch. Numbers sort numerically and before other
+ * values, which sort by their text.
+ */
+function applySortFrontmatter(
+  content: string,
+  patch: SortFrontmatterPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const direction = patch.order === "desc" ? -1 : 1;
+  const text = (value: unknown): string =>
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+
+  return applyFrontmatterArrayPatch(content, patch, warnings, filePath, (values) =>
+    [...values].sort((a, b) => {
+      if (typeof a === "number" && typeof b === "number") {
+        return (a - b) * direction;
+      }
+      if (typeof a === "number" || typeof b === "number") {
+        return typeof a === "number" ? -1 : 1;
+      }
+      return text(a).localeCompare(text(b)) * direction;
+    })
+  );
 }
 
 /**
- * Find the line indices for start and end markers.
+ * Find the indices of all lines that match the given pattern.
  */
-function findBetweenMarkers(
+function findMatchingLines(
   lines: string[],
-  start: string,
-  end: string
-): { startIndex: number; endIndex: number } | null {
-  let startIndex = -1;
-  let endIndex = -1;
+  match: string | undefined,
+  pattern: string | undefined,
+  regex: boolean | undefined
+): number[] {
+  const matches: number[] = [];
+  let re: RegExp | null = null;
+  if (pattern !== undefined) {
+    // Use pattern (always regex)
+    re = new RegExp(pattern);
+  } else if (match !== undefined && regex) {
+    // Treat match as regex
+    re = new RegExp(match);
+  }
 
   for (let i = 0; i < lines.length; i++) {
-    if (startIndex === -1 && lines[i].includes(start)) {
-      startIndex = i;
-    } else if (startIndex !== -1 && lines[i].includes(end)) {
-      endIndex = i;
-      break;
+    if (re ? re.test(lines[i]) : match !== undefined && lines[i].includes(match)) {
+      matches.push(i);
     }
   }
 
-  if (startIndex === -1 || endIndex === -1) {
-    return null;
-  }
-
-  return { startIndex, endIndex };
+  return matches;
 }
 
 /**
- * Apply a delete-between patch.
+ * Pick the matches a patch changes from its occurrence and expectCount
+ * settings. Returns the selected match indices in ascending order, or null
+ * (after onNoMatch handling) when the patch shouldn't apply.
  */
-function applyDeleteBetween(
-  content: string,
-  patch: DeleteBetweenPatch,
+function selectOccurrences(
+  count: number,
+  patch: { op: string; occurrence?: Occurrence; expectCount?: number; onNoMatch?: OnNoMatch },
+  defaultOccurrence: Occurrence,
+  noMatchMessage: string,
   warnings: string[],
   filePath: string
-): { content: string; applied: boolean } {
-  const { start, end, inclusive, onNoMatch } = patch;
+): number[] | null {
+  const { op, expectCount, onNoMatch } = patch;
 
-  const lines = content.split("\n");
-  const markers = findBetweenMarkers(lines, start, end);
-
-  if (!markers) {
+  if (expectCount !== undefined && count !== expectCount) {
     handleNoMatch(
       onNoMatch,
-      `Patch 'delete-between' did not match: markers not found in ${filePath}`,
+      `Patch '${op}' expected ${expectCount} match${expectCount === 1 ? "" : "es"} but found ${count} in ${filePath}`,
       warnings
     );
-    return { content, applied: false };
+    return null;
+  }
+  if (count === 0) {
+    if (expectCount === undefined) {
+      handleNoMatch(onNoMatch, noMatchMessage, warnings);
+    }
+    return null;
   }
 
-  const { startIndex, endIndex } = markers;
-
-  // Delete lines between (and optionally including) the markers
-  const deleteStart = inclusive ? startIndex : startIndex + 1;
-  const deleteEnd = inclusive ? endIndex + 1 : endIndex;
-
-  const before = lines.slice(0, deleteStart);
-  const after = lines.slice(deleteEnd);
-
-  let result = [...before, ...after].join("\n");
-
-  // Clean up multiple consecutive blank lines
-  result = result.replace(/\n{3,}/g, "\n\n");
-
-  return { content: result, applied: true };
+  const occurrence = patch.occurrence ?? defaultOccurrence;
+  switch (occurrence) {
+    case "first":
+      return [0];
+    case "last":
+      return [count - 1];
+    case "all":
+      return Array.from({ length: count }, (_, i) => i);
+    default:
+      if (occurrence > count) {
+        handleNoMatch(
+          onNoMatch,
+          `Patch '${op}' did not match: occurrence ${occurrence} requested but only ${count} found in ${filePath}`,
+          warnings
+        );
+        return null;
+      }
+      return [occurrence - 1];
+  }
 }
 
 /**
- * Apply a replace-between patch.
+ * Apply a line operation to the selected matching lines, bottom-up so
+ * insertions don't shift the lines still to be edited.
+ */
+function applyLineOperation(
+  content: string,
+  patch: InsertAfterLinePatch | InsertBeforeLinePatch | ReplaceLinePatch,
+  warnings: string[],
+  filePath: string,
+  edit: (lines: string[], lineIndex: number) => void
+): PatchOutcome {
+  const { match, pattern, regex } = patch;
+
+  const lines = content.split("\n");
+  const matches = findMatchingLines(lines, match, pattern, regex);
+  const selected = selectOccurrences(
+    matches.length,
+    patch,
+    "first",
+    `Patch '${patch.op}' did not match: pattern not found in ${filePath}`,
+    warnings,
+    filePath
+  );
+  if (!selected) {
+    return { content, applied: false, occurrences: { matched: matches.length, applied: 0 } };
+  }
+
+  for (const index of [...selected].reverse()) {
+    edit(lines, matches[index]);
+  }
+
+  return {
+    content: lines.join("\n"),
+    applied: true,
+    occurrences: { matched: matches.length, applied: selected.length },
+  };
+}
+
+/**
+ * Apply an insert-after-line patch.
+ */
+function applyInsertAfterLine(
+  content: string,
+  patch: InsertAfterLinePatch,
+  warnings: string[],
+  filePath: string
+): PatchOutcome {
+  // Insert content after the matched line
+  const trimmedContent = requireText(patch, "content").replace(/\n$/, "");
+
+  return applyLineOperation(content, patch, warnings, filePath, (lines, lineIndex) => {
+    lines.splice(lineIndex + 1, 0, trimmedContent);
+  });
+}
+
+/**
+ * Apply an insert-before-line patch.
+ */
+function applyInsertBeforeLine(
+  content: string,
+  patch: InsertBeforeLinePatch,
+  warnings: string[],
+  filePath: string
+): PatchOutcome {
+  // Insert content before the matched line
+  const trimmedContent = requireText(patch, "content").replace(/\n$/, "");
+
+  return applyLineOperation(content, patch, warnings, filePath, (lines, lineIndex) => {
+    lines.splice(lineIndex, 0, trimmedContent);
+  });
+}
+
+/**
+ * Apply a replace-line patch.
+ */
+function applyReplaceLine(
+  content: string,
+  patch: ReplaceLinePatch,
+  warnings: string[],
+  filePath: string
+): PatchOutcome {
+  // Replace the matched line
+  return applyLineOperation(content, patch, warnings, filePath, (lines, lineIndex) => {
+    lines[lineIndex] = requireText(patch, "replacement");
+  });
+}
+
+/**
+ * Find the line indices for start and end markers.
+ */
+function findBetweenMarkers(
+  lines: string[],
+  start: string,
+  end: string
+): { startIndex: number; endIndex: number } | null {
+  let startIndex = -1;
+  let endIndex = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (startIndex === -1 && lines[i].includes(start)) {
+      startIndex = i;
+    } else if (startIndex !== -1 && lines[i].includes(end)) {
+      endIndex = i;
+      break;
+    }
+  }
+
+  if (startIndex === -1 || endIndex === -1) {
+    return null;
+  }
+
+  return { startIndex, endIndex };
+}
+
+/**
+ * Apply a delete-between patch.
+ */
+function applyDeleteBetween(
+  content: string,
+  patch: DeleteBetweenPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { start, end, inclusive, onNoMatch } = patch;
+
+  const lines = content.split("\n");
+  const markers = findBetweenMarkers(lines, start, end);
+
+  if (!markers) {
+    handleNoMatch(
+      onNoMatch,
+      `Patch 'delete-between' did not match: markers not found in ${filePath}`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  const { startIndex, endIndex } = markers;
+
+  // Delete lines between (and optionally including) the markers
+  const deleteStart = inclusive ? startIndex : startIndex + 1;
+  const deleteEnd = inclusive ? endIndex + 1 : endIndex;
+
+  const before = lines.slice(0, deleteStart);
+  const after = lines.slice(deleteEnd);
+
+  let result = [...before, ...after].join("\n");
+
+  // Clean up multiple consecutive blank lines
+  result = result.replace(/\n{3,}/g, "\n\n");
+
+  return { content: result, applied: true };
+}
+
+/**
+ * Apply a replace-between patch.
  */
 function applyReplaceBetween(
   content: string,
@@ -895,7 +1425,8 @@ function applyReplaceBetween(
   warnings: string[],
   filePath: string
 ): { content: string; applied: boolean } {
-  const { start, end, content: newContent, inclusive, onNoMatch } = patch;
+  const { start, end, inclusive, onNoMatch } = patch;
+  const newContent = requireText(patch, "content");
 
   const lines = content.split("\n");
   const markers = findBetweenMarkers(lines, start, end);
@@ -927,166 +1458,1675 @@ function applyReplaceBetween(
 }
 
 /**
- * Apply a rename-header patch.
+ * Apply a rename-header patch.
+ */
+function applyRenameHeader(
+  content: string,
+  patch: RenameHeaderPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { id, new: newTitle, onNoMatch } = patch;
+
+  const sections = parseSections(content);
+  const section = findSection(sections, id);
+
+  if (!section) {
+    handleNoMatch(
+      onNoMatch,
+      `Patch 'rename-header' did not match: section "${id}" not found in ${filePath}`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  const lines = content.split("\n");
+
+  if (section.style === "setext") {
+    // Keep the underline, resizing it if it was drawn to the title's width
+    const textLine = lines[section.headerLine];
+    const underline = lines[section.headerEndLine].trim();
+    lines[section.headerLine] = newTitle;
+    if (underline.length === textLine.trim().length) {
+      lines[section.headerEndLine] = underline[0].repeat(Math.max(3, newTitle.length));
+    }
+  } else {
+    // Preserve the header level (number of #) and any closing hashes
+    lines[section.headerLine] =
+      `${"#".repeat(section.level)} ${newTitle}${section.closingSequence ?? ""}`;
+  }
+
+  return { content: lines.join("\n"), applied: true };
+}
+
+/**
+ * Apply a move-section patch.
+ */
+function applyMoveSection(
+  content: string,
+  patch: MoveSectionPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { id, after, before, onNoMatch } = patch;
+
+  const sections = parseSections(content);
+  const section = findSection(sections, id);
+
+  if (!section) {
+    handleNoMatch(
+      onNoMatch,
+      `Patch 'move-section' did not match: section "${id}" not found in ${filePath}`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  // Find target section
+  const targetId = after || before;
+  if (!targetId) {
+    handleNoMatch(
+      onNoMatch,
+      `Patch 'move-section' requires either 'after' or 'before' to be specified`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  const targetSection = findSection(sections, targetId);
+  if (!targetSection) {
+    handleNoMatch(
+      onNoMatch,
+      `Patch 'move-section' did not match: target section "${targetId}" not found in ${filePath}`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  const lines = content.split("\n");
+
+  // Extract the section content (including header and children)
+  const sectionLines = lines.slice(section.startLine, section.endLine + 1);
+
+  // Remove the section from its original position
+  const withoutSection = [
+    ...lines.slice(0, section.startLine),
+    ...lines.slice(section.endLine + 1),
+  ];
+
+  // Recalculate target position after removal
+  let targetLine: number;
+  if (section.startLine < targetSection.startLine) {
+    // Section was before target, adjust for removal
+    const removedLines = section.endLine - section.startLine + 1;
+    if (after) {
+      targetLine = targetSection.endLine - removedLines + 1;
+    } else {
+      targetLine = targetSection.startLine - removedLines;
+    }
+  } else {
+    // Section was after target, no adjustment needed
+    if (after) {
+      targetLine = targetSection.endLine + 1;
+    } else {
+      targetLine = targetSection.startLine;
+    }
+  }
+
+  // Insert section at new position
+  const result = [
+    ...withoutSection.slice(0, targetLine),
+    ...sectionLines,
+    ...withoutSection.slice(targetLine),
+  ];
+
+  return { content: result.join("\n"), applied: true };
+}
+
+/**
+ * Apply a change-section-level patch.
+ */
+function applyChangeSectionLevel(
+  content: string,
+  patch: ChangeSectionLevelPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { id, delta, onNoMatch } = patch;
+
+  const sections = parseSections(content);
+  const section = findSection(sections, id);
+
+  if (!section) {
+    handleNoMatch(
+      onNoMatch,
+      `Patch 'change-section-level' did not match: section "${id}" not found in ${filePath}`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  const lines = content.split("\n");
+
+  // Change the level of this section and all its children. Work bottom-up,
+  // since converting a setext header to ATX removes its underline.
+  const affected = sections.filter(
+    (s) => s.startLine >= section.startLine && s.startLine <= section.endLine
+  );
+  for (const target of affected.reverse()) {
+    const newLevel = Math.max(1, Math.min(6, target.level + delta));
+
+    if (target.style === "atx") {
+      lines[target.headerLine] = lines[target.headerLine].replace(/^#{1,6}/, "#".repeat(newLevel));
+    } else if (newLevel <= 2) {
+      // Setext headers stay setext for levels 1 and 2
+      const underline = lines[target.headerEndLine].trim();
+      lines[target.headerEndLine] = (newLevel === 1 ? "=" : "-").repeat(underline.length);
+    } else {
+      // Setext can't express level 3+, so convert to ATX
+      lines.splice(
+        target.headerLine,
+        2,
+        `${"#".repeat(newLevel)} ${lines[target.headerLine].trim()}`
+      );
+    }
+  }
+
+  return { content: lines.join("\n"), applied: true };
+}
+
+/**
+ * Apply an insert-section patch.
+ * The new section goes before/after a sibling section (after includes its
+ * children) or becomes the first/last child of a parent section.
+ */
+function applyInsertSection(
+  content: string,
+  patch: InsertSectionPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { level, title, after, before, firstChildOf, lastChildOf, onNoMatch } = patch;
+
+  const placements = { after, before, firstChildOf, lastChildOf };
+  const given = Object.entries(placements).filter(([, selector]) => selector !== undefined);
+  if (given.length !== 1) {
+    handleNoMatch(
+      onNoMatch,
+      `Patch 'insert-section' requires exactly one of 'after', 'before', 'firstChildOf' or 'lastChildOf'`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  const [placement, targetId] = given[0] as [keyof typeof placements, string];
+  const sections = parseSections(content);
+  const target = findSection(sections, targetId);
+
+  if (!target) {
+    handleNoMatch(
+      onNoMatch,
+      `Patch 'insert-section' did not match: section "${targetId}" not found in ${filePath}`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  const lines = content.split("\n");
+
+  let insertLine: number;
+  switch (placement) {
+    case "before":
+      insertLine = target.startLine;
+      break;
+    case "firstChildOf": {
+      const firstChild = sections.find(
+        (s) => s.startLine > target.startLine && s.startLine <= target.endLine
+      );
+      insertLine = firstChild ? firstChild.startLine : target.endLine + 1;
+      break;
+    }
+    default:
+      insertLine = target.endLine + 1;
+  }
+
+  // Keep the file's trailing newline after the new section
+  if (insertLine === lines.length && lines[insertLine - 1] === "") {
+    insertLine--;
+  }
+
+  const block = [`${"#".repeat(level)} ${title}`];
+  const body = patch.content.replace(/^\n+|\n+$/g, "");
+  if (body) {
+    block.push("", ...body.split("\n"));
+  }
+
+  // Separate the new section from its neighbours with blank lines
+  if (insertLine > 0 && lines[insertLine - 1].trim() !== "") {
+    block.unshift("");
+  }
+  if (insertLine < lines.length && lines[insertLine].trim() !== "") {
+    block.push("");
+  }
+
+  lines.splice(insertLine, 0, ...block);
+
+  return { content: lines.join("\n"), applied: true };
+}
+
+/**
+ * Column alignment from a table's delimiter row
+ */
+type TableAlign = "left" | "center" | "right" | null;
+
+/**
+ * A GFM pipe table found in markdown content
+ */
+export interface MarkdownTable {
+  /** 0-indexed line of the header row */
+  startLine: number;
+  /** 0-indexed last line of the table (inclusive) */
+  endLine: number;
+  /** Leading whitespace of the header row */
+  indent: string;
+  header: string[];
+  align: TableAlign[];
+  rows: string[][];
+}
+
+/**
+ * Table delimiter row, e.g. `| :--- | ---: |`
+ */
+const TABLE_DELIMITER_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Split a table row into trimmed cells. Escaped pipes (`\|`) stay in the cell.
+ */
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith("|")) {
+    row = row.slice(1);
+  }
+  if (row.endsWith("|") && !row.endsWith("\\|")) {
+    row = row.slice(0, -1);
+  }
+
+  const cells: string[] = [];
+  let cell = "";
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === "\\" && row[i + 1] === "|") {
+      cell += "\\|";
+      i++;
+    } else if (row[i] === "|") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Make a value safe to write into a table cell: pipes are escaped and line
+ * breaks, which would end the row, become spaces.
+ */
+function escapeTableCell(value: string): string {
+  return value
+    .replace(/\s*\r?\n\s*/g, " ")
+    .replace(/(?<!\\)\|/g, "\\|")
+    .trim();
+}
+
+/**
+ * Parse the GFM pipe tables in markdown content, skipping code blocks,
+ * HTML comments and frontmatter.
+ */
+export function parseTables(content: string): MarkdownTable[] {
+  const lines = content.split("\n");
+  const literal = findLiteralLines(lines);
+  const tables: MarkdownTable[] = [];
+
+  for (let i = 0; i + 1 < lines.length; i++) {
+    if (literal[i] || literal[i + 1] || !lines[i].includes("|")) {
+      continue;
+    }
+    if (!TABLE_DELIMITER_REGEX.test(lines[i + 1])) {
+      continue;
+    }
+
+    const header = splitTableRow(lines[i]);
+    const delimiter = splitTableRow(lines[i + 1]);
+    if (header.length !== delimiter.length) {
+      continue;
+    }
+
+    const align = delimiter.map((cell): TableAlign => {
+      const left = cell.startsWith(":");
+      const right = cell.endsWith(":");
+      if (left && right) return "center";
+      if (right) return "right";
+      if (left) return "left";
+      return null;
+    });
+
+    // Body rows continue until a blank line or a non-row line
+    const rows: string[][] = [];
+    let end = i + 1;
+    while (
+      end + 1 < lines.length &&
+      !literal[end + 1] &&
+      lines[end + 1].trim() !== "" &&
+      lines[end + 1].includes("|")
+    ) {
+      end++;
+      // GFM pads short rows and drops extra cells
+      const cells = splitTableRow(lines[end]).slice(0, header.length);
+      while (cells.length < header.length) {
+        cells.push("");
+      }
+      rows.push(cells);
+    }
+
+    tables.push({
+      startLine: i,
+      endLine: end,
+      indent: lines[i].match(/^\s*/)![0],
+      header,
+      align,
+      rows,
+    });
+    i = end;
+  }
+
+  return tables;
+}
+
+/**
+ * Serialise a table with aligned pipes, keeping its alignment markers.
+ */
+function formatTable(table: MarkdownTable): string[] {
+  const widths = table.header.map((cell, col) =>
+    Math.max(3, cell.length, ...table.rows.map((row) => row[col].length))
+  );
+
+  const pad = (cell: string, col: number): string => {
+    const gap = widths[col] - cell.length;
+    switch (table.align[col]) {
+      case "right":
+        return " ".repeat(gap) + cell;
+      case "center":
+        return " ".repeat(Math.floor(gap / 2)) + cell + " ".repeat(Math.ceil(gap / 2));
+      default:
+        return cell + " ".repeat(gap);
+    }
+  };
+  const formatRow = (cells: string[]): string =>
+    `${table.indent}| ${cells.map(pad).join(" | ")} |`;
+
+  const delimiter = table.align.map((align, col) => {
+    const width = widths[col];
+    switch (align) {
+      case "left":
+        return ":" + "-".repeat(width - 1);
+      case "right":
+        return "-".repeat(width - 1) + ":";
+      case "center":
+        return ":" + "-".repeat(width - 2) + ":";
+      default:
+        return "-".repeat(width);
+    }
+  });
+
+  return [
+    formatRow(table.header),
+    `${table.indent}| ${delimiter.join(" | ")} |`,
+    ...table.rows.map(formatRow),
+  ];
+}
+
+/**
+ * Locate the table a table patch targets: the first table inside the selected
+ * section whose header contains all the requested columns.
+ */
+function findTable(
+  content: string,
+  patch: { section?: string; header?: string[] }
+): MarkdownTable | undefined {
+  let tables = parseTables(content);
+
+  if (patch.section !== undefined) {
+    const section = findSection(parseSections(content), patch.section);
+    if (!section) {
+      return undefined;
+    }
+    tables = tables.filter(
+      (t) => t.startLine > section.startLine && t.startLine <= section.endLine
+    );
+  }
+
+  const header = patch.header;
+  if (header) {
+    tables = tables.filter((t) => header.every((column) => t.header.includes(column)));
+  }
+
+  return tables[0];
+}
+
+/**
+ * Describe a table locator for no-match messages.
+ */
+function describeTableLocator(patch: { section?: string; header?: string[] }): string {
+  const parts: string[] = [];
+  if (patch.section !== undefined) {
+    parts.push(`in section "${patch.section}"`);
+  }
+  if (patch.header) {
+    parts.push(`with columns ${patch.header.map((c) => `"${c}"`).join(", ")}`);
+  }
+  return parts.length > 0 ? `table ${parts.join(" ")}` : "table";
+}
+
+type TablePatch =
+  | TableAddRowPatch
+  | TableRemoveRowsPatch
+  | TableSetCellPatch
+  | TableAddColumnPatch
+  | TableRemoveColumnPatch
+  | TableSortPatch;
+
+/**
+ * Apply a table patch: locate the table, let the op edit it in place and
+ * re-serialise it. The edit returns an error message when it can't apply.
+ */
+function applyTablePatch(
+  content: string,
+  patch: TablePatch,
+  warnings: string[],
+  filePath: string,
+  edit: (table: MarkdownTable) => string | null
+): { content: string; applied: boolean } {
+  const table = findTable(content, patch);
+
+  if (!table) {
+    handleNoMatch(
+      patch.onNoMatch,
+      `Patch '${patch.op}' did not match: ${describeTableLocator(patch)} not found in ${filePath}`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  const error = edit(table);
+  if (error) {
+    handleNoMatch(patch.onNoMatch, `Patch '${patch.op}' did not match: ${error} in ${filePath}`, warnings);
+    return { content, applied: false };
+  }
+
+  const lines = content.split("\n");
+  lines.splice(table.startLine, table.endLine - table.startLine + 1, ...formatTable(table));
+
+  return { content: lines.join("\n"), applied: true };
+}
+
+/**
+ * Find a column by name, returning its index or -1.
+ */
+function findColumn(table: MarkdownTable, column: string): number {
+  return table.header.indexOf(column);
+}
+
+/**
+ * Apply a table-add-row patch.
+ */
+function applyTableAddRow(
+  content: string,
+  patch: TableAddRowPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  return applyTablePatch(content, patch, warnings, filePath, (table) => {
+    const row = patch.row;
+    let cells: string[];
+    if (Array.isArray(row)) {
+      if (row.length > table.header.length) {
+        return `row has ${row.length} cells but the table has ${table.header.length} columns`;
+      }
+      cells = table.header.map((_, col) => escapeTableCell(row[col] ?? ""));
+    } else {
+      const unknown = Object.keys(row).find((column) => findColumn(table, column) === -1);
+      if (unknown !== undefined) {
+        return `column "${unknown}" not found`;
+      }
+      cells = table.header.map((column) => escapeTableCell(row[column] ?? ""));
+    }
+
+    if (patch.position === "start") {
+      table.rows.unshift(cells);
+    } else {
+      table.rows.push(cells);
+    }
+    return null;
+  });
+}
+
+/**
+ * Apply a table-remove-rows patch.
+ */
+function applyTableRemoveRows(
+  content: string,
+  patch: TableRemoveRowsPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { column, match, pattern } = patch;
+
+  return applyTablePatch(content, patch, warnings, filePath, (table) => {
+    const col = findColumn(table, column);
+    if (col === -1) {
+      return `column "${column}" not found`;
+    }
+    if (match === undefined && pattern === undefined) {
+      return "either 'match' or 'pattern' is required";
+    }
+
+    const regex = pattern !== undefined ? new RegExp(pattern) : null;
+    const kept = table.rows.filter((row) =>
+      regex ? !regex.test(row[col]) : row[col] !== match
+    );
+    if (kept.length === table.rows.length) {
+      return `no rows matched in column "${column}"`;
+    }
+
+    table.rows = kept;
+    return null;
+  });
+}
+
+/**
+ * Apply a table-set-cell patch.
+ */
+function applyTableSetCell(
+  content: string,
+  patch: TableSetCellPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { keyColumn, key, column, value } = patch;
+
+  return applyTablePatch(content, patch, warnings, filePath, (table) => {
+    const keyCol = keyColumn !== undefined ? findColumn(table, keyColumn) : 0;
+    if (keyCol === -1) {
+      return `column "${keyColumn}" not found`;
+    }
+    const col = findColumn(table, column);
+    if (col === -1) {
+      return `column "${column}" not found`;
+    }
+
+    const row = table.rows.find((r) => r[keyCol] === key);
+    if (!row) {
+      return `row "${key}" not found`;
+    }
+
+    row[col] = escapeTableCell(value);
+    return null;
+  });
+}
+
+/**
+ * Apply a table-add-column patch.
+ */
+function applyTableAddColumn(
+  content: string,
+  patch: TableAddColumnPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { column, after, align } = patch;
+
+  return applyTablePatch(content, patch, warnings, filePath, (table) => {
+    if (findColumn(table, column) !== -1) {
+      return `column "${column}" already exists`;
+    }
+
+    let index = table.header.length;
+    if (after !== undefined) {
+      const afterCol = findColumn(table, after);
+      if (afterCol === -1) {
+        return `column "${after}" not found`;
+      }
+      index = afterCol + 1;
+    }
+
+    table.header.splice(index, 0, escapeTableCell(column));
+    table.align.splice(index, 0, align ?? null);
+    for (const row of table.rows) {
+      row.splice(index, 0, escapeTableCell(patch.default ?? ""));
+    }
+    return null;
+  });
+}
+
+/**
+ * Apply a table-remove-column patch.
+ */
+function applyTableRemoveColumn(
+  content: string,
+  patch: TableRemoveColumnPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { column } = patch;
+
+  return applyTablePatch(content, patch, warnings, filePath, (table) => {
+    const col = findColumn(table, column);
+    if (col === -1) {
+      return `column "${column}" not found`;
+    }
+    if (table.header.length === 1) {
+      return `cannot remove the only column "${column}"`;
+    }
+
+    table.header.splice(col, 1);
+    table.align.splice(col, 1);
+    for (const row of table.rows) {
+      row.splice(col, 1);
+    }
+    return null;
+  });
+}
+
+/**
+ * Apply a table-sort patch. The sort is stable; numeric sorts place
+ * non-numeric cells last.
+ */
+function applyTableSort(
+  content: string,
+  patch: TableSortPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { column, order, numeric } = patch;
+
+  return applyTablePatch(content, patch, warnings, filePath, (table) => {
+    const col = findColumn(table, column);
+    if (col === -1) {
+      return `column "${column}" not found`;
+    }
+
+    const direction = order === "desc" ? -1 : 1;
+    const compare = (a: string, b: string): number => {
+      if (numeric) {
+        const x = parseFloat(a);
+        const y = parseFloat(b);
+        if (isNaN(x) || isNaN(y)) {
+          return Number(isNaN(x)) - Number(isNaN(y));
+        }
+        return (x - y) * direction;
+      }
+      return a.localeCompare(b) * direction;
+    };
+
+    table.rows.sort((a, b) => compare(a[col], b[col]));
+    return null;
+  });
+}
+
+/**
+ * List item line: indentation, bullet (`-`, `*`, `+`) or number (`1.`, `1)`),
+ * spacing and item text
+ */
+const LIST_ITEM_REGEX = /^( *)([-*+]|\d{1,9}[.)])( +|$)(.*)$/;
+
+/**
+ * One line of a list being edited. Item lines remember the first number of
+ * their ordered list so the list can be renumbered after edits.
+ */
+interface ListLine {
+  text: string;
+  isItem: boolean;
+  groupStart?: number;
+}
+
+/**
+ * Get the indentation width of a line.
+ */
+function indentOf(line: string): number {
+  return line.match(/^ */)![0].length;
+}
+
+/**
+ * Get the kind of list an item marker belongs to. Changing the bullet
+ * character or the number delimiter starts a new list.
+ */
+function listKind(marker: string): string {
+  return /\d/.test(marker) ? `ordered${marker.slice(-1)}` : marker;
+}
+
+/**
+ * Find the top-level lists between two lines (inclusive), skipping code
+ * blocks and HTML comments. Each list runs from its first item to its last
+ * non-blank line, including nested lists and continuation lines.
+ */
+function findLists(
+  lines: string[],
+  literal: boolean[],
+  from: number,
+  to: number
+): Array<{ start: number; end: number }> {
+  const lists: Array<{ start: number; end: number }> = [];
+
+  for (let i = from; i <= to; i++) {
+    const first = literal[i] ? null : lines[i].match(LIST_ITEM_REGEX);
+    if (!first || first[1].length > 3) {
+      continue;
+    }
+
+    const indent = first[1].length;
+    const kind = listKind(first[2]);
+    let end = i;
+
+    for (let j = i + 1; j <= to; j++) {
+      const line = lines[j];
+      if (line.trim() === "") {
+        continue;
+      }
+      const item = literal[j] ? null : line.match(LIST_ITEM_REGEX);
+      if (item && item[1].length === indent) {
+        if (listKind(item[2]) !== kind) {
+          break;
+        }
+      } else if (indentOf(line) <= indent) {
+        // Lazy continuation of the previous line's paragraph
+        const lazy = !literal[j] && !item && lines[j - 1].trim() !== "" && !HEADER_REGEX.test(line);
+        if (!lazy) {
+          break;
+        }
+      }
+      end = j;
+    }
+
+    lists.push({ start: i, end });
+    i = end;
+  }
+
+  return lists;
+}
+
+/**
+ * Renumber the ordered lists among the given lines. The first item of each
+ * list keeps the list's original start number.
+ */
+function renumberList(listLines: ListLine[]): void {
+  const counters = new Map<number, { kind: string; number: number }>();
+
+  for (const line of listLines) {
+    if (line.text.trim() === "") {
+      continue;
+    }
+    const indent = indentOf(line.text);
+    for (const key of counters.keys()) {
+      if (key > indent) {
+        counters.delete(key);
+      }
+    }
+
+    const item = line.isItem ? line.text.match(LIST_ITEM_REGEX) : null;
+    if (!item) {
+      continue;
+    }
+
+    const kind = listKind(item[2]);
+    const previous = counters.get(indent);
+    const number =
+      previous && previous.kind === kind ? previous.number + 1 : (line.groupStart ?? 1);
+    counters.set(indent, { kind, number });
+
+    if (kind.startsWith("ordered")) {
+      line.text = `${item[1]}${number}${kind.slice(-1)}${item[3]}${item[4]}`;
+    }
+  }
+}
+
+/**
+ * Build the lines of a new list item shaped like an existing sibling item.
+ * Extra lines of the item text become continuation lines.
+ */
+function createListItem(sibling: ListLine, text: string): ListLine[] {
+  const [, indent, marker, spacing] = sibling.text.match(LIST_ITEM_REGEX)!;
+  const continuation = " ".repeat(indent.length + marker.length + Math.max(spacing.length, 1));
+  const [first, ...rest] = text.split("\n");
+
+  return [
+    { text: `${indent}${marker}${spacing || " "}${first}`, isItem: true, groupStart: sibling.groupStart },
+    ...rest.map((line) => ({ text: line ? continuation + line : line, isItem: false })),
+  ];
+}
+
+/**
+ * Check whether a list item's text matches a list patch's match/pattern.
+ */
+function listItemMatches(line: ListLine, match?: string, pattern?: string): boolean {
+  const item = line.isItem ? line.text.match(LIST_ITEM_REGEX) : null;
+  if (!item) {
+    return false;
+  }
+  if (pattern !== undefined) {
+    return new RegExp(pattern).test(item[4]);
+  }
+  return match !== undefined && item[4].includes(match);
+}
+
+/**
+ * Find the index just past an item and its nested content.
+ */
+function listItemEnd(listLines: ListLine[], index: number): number {
+  const indent = indentOf(listLines[index].text);
+  let end = index + 1;
+  while (
+    end < listLines.length &&
+    !(listLines[end].isItem && indentOf(listLines[end].text) <= indent)
+  ) {
+    end++;
+  }
+  return end;
+}
+
+type ListPatch = ListAddItemPatch | ListRemoveItemsPatch | ListReplaceItemPatch;
+
+/**
+ * Apply a list patch: locate the list, let the op edit its lines and write
+ * them back renumbered. The edit returns an error message when it can't apply.
+ */
+function applyListPatch(
+  content: string,
+  patch: ListPatch,
+  warnings: string[],
+  filePath: string,
+  edit: (listLines: ListLine[]) => string | null
+): { content: string; applied: boolean } {
+  const lines = content.split("\n");
+  const literal = findLiteralLines(lines);
+
+  let from = 0;
+  let to = lines.length - 1;
+  if (patch.section !== undefined) {
+    const section = findSection(parseSections(content), patch.section);
+    if (!section) {
+      handleNoMatch(
+        patch.onNoMatch,
+        `Patch '${patch.op}' did not match: section "${patch.section}" not found in ${filePath}`,
+        warnings
+      );
+      return { content, applied: false };
+    }
+    from = section.headerEndLine + 1;
+    to = section.endLine;
+  }
+
+  const nth = patch.list ?? 1;
+  const list = findLists(lines, literal, from, to)[nth - 1];
+  if (!list) {
+    const where = patch.section !== undefined ? ` in section "${patch.section}"` : "";
+    handleNoMatch(
+      patch.onNoMatch,
+      `Patch '${patch.op}' did not match: list ${nth}${where} not found in ${filePath}`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  // Record each ordered list's start number before editing
+  const listLines: ListLine[] = lines.slice(list.start, list.end + 1).map((text, i) => ({
+    text,
+    isItem: !literal[list.start + i] && LIST_ITEM_REGEX.test(text),
+  }));
+  const starts = new Map<number, { kind: string; start: number }>();
+  for (const line of listLines) {
+    if (line.text.trim() === "") {
+      continue;
+    }
+    const indent = indentOf(line.text);
+    for (const key of starts.keys()) {
+      if (key > indent) {
+        starts.delete(key);
+      }
+    }
+    const item = line.isItem ? line.text.match(LIST_ITEM_REGEX)! : null;
+    if (item) {
+      const kind = listKind(item[2]);
+      const group = starts.get(indent);
+      if (!group || group.kind !== kind) {
+        starts.set(indent, { kind, start: parseInt(item[2], 10) || 1 });
+      }
+      line.groupStart = starts.get(indent)!.start;
+    }
+  }
+
+  const error = edit(listLines);
+  if (error) {
+    handleNoMatch(patch.onNoMatch, `Patch '${patch.op}' did not match: ${error} in ${filePath}`, warnings);
+    return { content, applied: false };
+  }
+
+  while (listLines.length > 0 && listLines[listLines.length - 1].text.trim() === "") {
+    listLines.pop();
+  }
+  renumberList(listLines);
+
+  lines.splice(list.start, list.end - list.start + 1, ...listLines.map((line) => line.text));
+
+  return { content: lines.join("\n"), applied: true };
+}
+
+/**
+ * Apply a list-add-item patch.
+ */
+function applyListAddItem(
+  content: string,
+  patch: ListAddItemPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { item, position, index, after, before } = patch;
+
+  return applyListPatch(content, patch, warnings, filePath, (listLines) => {
+    const topIndent = indentOf(listLines[0].text);
+    const topItems = listLines
+      .map((line, i) => (line.isItem && indentOf(line.text) === topIndent ? i : -1))
+      .filter((i) => i !== -1);
+
+    // Find the sibling the new item copies and the line to insert it at
+    let sibling: number;
+    let insertAt: number;
+    if (after !== undefined || before !== undefined) {
+      const target = listLines.findIndex((line) => listItemMatches(line, after ?? before));
+      if (target === -1) {
+        return `item "${after ?? before}" not found`;
+      }
+      sibling = target;
+      insertAt = after !== undefined ? listItemEnd(listLines, target) : target;
+    } else if (index !== undefined) {
+      if (index > topItems.length + 1) {
+        return `index ${index} is past the end of the list (${topItems.length} items)`;
+      }
+      sibling = topItems[Math.min(index - 1, topItems.length - 1)];
+      insertAt = index <= topItems.length ? topItems[index - 1] : listLines.length;
+    } else if (position === "start") {
+      sibling = topItems[0];
+      insertAt = 0;
+    } else {
+      sibling = topItems[topItems.length - 1];
+      insertAt = listLines.length;
+    }
+
+    const newLines = createListItem(listLines[sibling], item);
+
+    // Loose lists separate items with blank lines
+    const loose = listLines.some(
+      (line, i) => i > 0 && line.isItem && listLines[i - 1].text.trim() === ""
+    );
+    if (loose) {
+      if (insertAt === listLines.length) {
+        newLines.unshift({ text: "", isItem: false });
+      } else {
+        newLines.push({ text: "", isItem: false });
+      }
+    }
+
+    listLines.splice(insertAt, 0, ...newLines);
+    return null;
+  });
+}
+
+/**
+ * Apply a list-remove-items patch. Removing an item removes its nested items.
+ */
+function applyListRemoveItems(
+  content: string,
+  patch: ListRemoveItemsPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { match, pattern } = patch;
+
+  return applyListPatch(content, patch, warnings, filePath, (listLines) => {
+    if (match === undefined && pattern === undefined) {
+      return "either 'match' or 'pattern' is required";
+    }
+
+    let removed = 0;
+    for (let i = 0; i < listLines.length; ) {
+      if (listItemMatches(listLines[i], match, pattern)) {
+        listLines.splice(i, listItemEnd(listLines, i) - i);
+        removed++;
+      } else {
+        i++;
+      }
+    }
+
+    return removed > 0 ? null : "no list items matched";
+  });
+}
+
+/**
+ * Apply a list-replace-item patch. Matching items keep their marker and
+ * nested items; only the item's own text is replaced.
+ */
+function applyListReplaceItem(
+  content: string,
+  patch: ListReplaceItemPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { match, pattern, item } = patch;
+
+  return applyListPatch(content, patch, warnings, filePath, (listLines) => {
+    if (match === undefined && pattern === undefined) {
+      return "either 'match' or 'pattern' is required";
+    }
+
+    let replaced = 0;
+    for (let i = 0; i < listLines.length; i++) {
+      if (!listItemMatches(listLines[i], match, pattern)) {
+        continue;
+      }
+
+      // Drop the old item's continuation lines up to its first nested item
+      const indent = indentOf(listLines[i].text);
+      let textEnd = i + 1;
+      while (
+        textEnd < listLines.length &&
+        !listLines[textEnd].isItem &&
+        (listLines[textEnd].text.trim() === "" || indentOf(listLines[textEnd].text) > indent)
+      ) {
+        textEnd++;
+      }
+      while (textEnd > i + 1 && listLines[textEnd - 1].text.trim() === "") {
+        textEnd--;
+      }
+
+      const newLines = createListItem(listLines[i], item);
+      listLines.splice(i, textEnd - i, ...newLines);
+      i += newLines.length - 1;
+      replaced++;
+    }
+
+    return replaced > 0 ? null : "no list items matched";
+  });
+}
+
+/**
+ * A fenced code block in markdown content
+ */
+export interface CodeBlock {
+  /** 0-indexed line of the opening fence */
+  startLine: number;
+  /** 0-indexed closing fence line, or the last line if the fence is unclosed */
+  endLine: number;
+  closed: boolean;
+  indent: string;
+  fence: string;
+  /** Full info string, e.g. `bash title="setup"` */
+  info: string;
+  /** First word of the info string ("" if none) */
+  language: string;
+  /** Block body with the fence indentation removed */
+  body: string;
+}
+
+/**
+ * Parse the fenced code blocks in markdown content, skipping fence-like
+ * lines in frontmatter, HTML comments and indented code.
+ */
+export function parseCodeBlocks(content: string): CodeBlock[] {
+  const lines = content.split("\n");
+
+  return scanLiteralLines(lines).fences.map((fence) => {
+    const bodyLines = lines.slice(fence.start + 1, fence.closed ? fence.end : fence.end + 1);
+    return {
+      startLine: fence.start,
+      endLine: fence.end,
+      closed: fence.closed,
+      indent: fence.indent,
+      fence: fence.fence,
+      info: fence.info,
+      language: fence.info.split(/\s+/)[0],
+      // Content lines lose up to the fence's indentation
+      body: bodyLines
+        .map((line) => line.replace(new RegExp(`^ {0,${fence.indent.length}}`), ""))
+        .join("\n"),
+    };
+  });
+}
+
+type CodeBlockPatch =
+  | ReplaceCodeBlockPatch
+  | ReplaceInCodeBlockPatch
+  | ChangeCodeBlockLanguagePatch
+  | RemoveCodeBlockPatch;
+
+/**
+ * Select the code blocks a code block patch targets.
+ */
+function findCodeBlocks(content: string, patch: CodeBlockPatch): CodeBlock[] | undefined {
+  let blocks = parseCodeBlocks(content);
+
+  if (patch.section !== undefined) {
+    const section = findSection(parseSections(content), patch.section);
+    if (!section) {
+      return undefined;
+    }
+    blocks = blocks.filter(
+      (b) => b.startLine > section.startLine && b.startLine <= section.endLine
+    );
+  }
+
+  const { language, contains, index } = patch;
+  if (language !== undefined) {
+    blocks = blocks.filter((b) => b.language.toLowerCase() === language.toLowerCase());
+  }
+  if (contains !== undefined) {
+    blocks = blocks.filter((b) => b.body.includes(contains));
+  }
+  if (index !== undefined) {
+    blocks = blocks.slice(index - 1, index);
+  }
+
+  return blocks;
+}
+
+/**
+ * Describe a code block locator for no-match messages.
+ */
+function describeCodeBlockLocator(patch: CodeBlockPatch): string {
+  const parts: string[] = [];
+  if (patch.language !== undefined) {
+    parts.push(`language "${patch.language}"`);
+  }
+  if (patch.section !== undefined) {
+    parts.push(`in section "${patch.section}"`);
+  }
+  if (patch.contains !== undefined) {
+    parts.push(`containing "${patch.contains}"`);
+  }
+  if (patch.index !== undefined) {
+    parts.push(`#${patch.index}`);
+  }
+  return parts.length > 0 ? `code block (${parts.join(", ")})` : "code block";
+}
+
+/**
+ * Apply a code block patch: rewrite each selected block, bottom-up so line
+ * numbers stay valid. The edit returns the block's new lines, or null to
+ * leave the block unchanged.
+ */
+function applyCodeBlockPatch(
+  content: string,
+  patch: CodeBlockPatch,
+  warnings: string[],
+  filePath: string,
+  edit: (block: CodeBlock) => string[] | null
+): { content: string; applied: boolean } {
+  const blocks = findCodeBlocks(content, patch);
+
+  if (!blocks || blocks.length === 0) {
+    const reason = blocks ? `no ${describeCodeBlockLocator(patch)} found` : `section "${patch.section}" not found`;
+    handleNoMatch(patch.onNoMatch, `Patch '${patch.op}' did not match: ${reason} in ${filePath}`, warnings);
+    return { content, applied: false };
+  }
+
+  const lines = content.split("\n");
+  let changed = 0;
+
+  for (const block of [...blocks].reverse()) {
+    const replacement = edit(block);
+    if (replacement) {
+      lines.splice(block.startLine, block.endLine - block.startLine + 1, ...replacement);
+      changed++;
+    }
+  }
+
+  if (changed === 0) {
+    handleNoMatch(
+      patch.onNoMatch,
+      `Patch '${patch.op}' did not match: no change in the selected code blocks in ${filePath}`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  return { content: lines.join("\n"), applied: true };
+}
+
+/**
+ * Serialise a code block with a new info string and body, keeping its fence
+ * and indentation.
+ */
+function formatCodeBlock(block: CodeBlock, info: string, body: string): string[] {
+  const open = `${block.indent}${block.fence}${info}`;
+  const bodyLines = body === "" ? [] : body.split("\n").map((line) => (line ? block.indent + line : line));
+  return [open, ...bodyLines, ...(block.closed ? [`${block.indent}${block.fence}`] : [])];
+}
+
+/**
+ * Apply a replace-code-block patch.
+ */
+function applyReplaceCodeBlock(
+  content: string,
+  patch: ReplaceCodeBlockPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const body = requireText(patch, "content").replace(/\n$/, "");
+
+  return applyCodeBlockPatch(content, patch, warnings, filePath, (block) =>
+    formatCodeBlock(block, block.info, body)
+  );
+}
+
+/**
+ * Apply a replace-in-code-block patch: a replace or replace-regex scoped to
+ * the selected code block bodies.
+ */
+function applyReplaceInCodeBlock(
+  content: string,
+  patch: ReplaceInCodeBlockPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { old, new: newText, pattern, replacement, flags } = patch;
+
+  let transform: (body: string) => string;
+  if (pattern !== undefined && replacement !== undefined) {
+    const regex = new RegExp(pattern, flags ?? "g");
+    transform = (body) => body.replace(regex, replacement);
+  } else if (old !== undefined && newText !== undefined) {
+    transform = (body) => body.split(old).join(newText);
+  } else {
+    handleNoMatch(
+      patch.onNoMatch,
+      `Patch 'replace-in-code-block' requires either 'old' and 'new' or 'pattern' and 'replacement'`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  return applyCodeBlockPatch(content, patch, warnings, filePath, (block) => {
+    const body = transform(block.body);
+    return body === block.body ? null : formatCodeBlock(block, block.info, body);
+  });
+}
+
+/**
+ * Apply a change-code-block-language patch. Only the language (first word
+ * of the info string) changes; any attributes after it are kept.
+ */
+function applyChangeCodeBlockLanguage(
+  content: string,
+  patch: ChangeCodeBlockLanguagePatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  return applyCodeBlockPatch(content, patch, warnings, filePath, (block) => {
+    const info = block.language
+      ? patch.new + block.info.slice(block.language.length)
+      : patch.new;
+    return formatCodeBlock(block, info.trim(), block.body);
+  });
+}
+
+/**
+ * Apply a remove-code-block patch. A blank line left doubled by the removal
+ * is dropped too.
+ */
+function applyRemoveCodeBlock(
+  content: string,
+  patch: RemoveCodeBlockPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const lines = content.split("\n");
+
+  return applyCodeBlockPatch(content, patch, warnings, filePath, (block) => {
+    const before = block.startLine === 0 || lines[block.startLine - 1].trim() === "";
+    const after = lines[block.endLine + 1];
+    if (before && after !== undefined && after.trim() === "") {
+      // Remove the following blank line along with the block
+      block.endLine++;
+    }
+    return [];
+  });
+}
+
+/**
+ * Default marker lines of a generated table of contents
+ */
+const TOC_START_MARKER = "<!-- toc -->";
+const TOC_END_MARKER = "<!-- /toc -->";
+
+/**
+ * Build table of contents lines: a nested list linking to each section's slug,
+ * indented relative to the shallowest listed level.
+ */
+function buildToc(sections: Section[], minLevel: number, maxLevel: number, excluded: Set<Section>): string[] {
+  const entries = sections.filter(
+    (section) => !excluded.has(section) && section.level >= minLevel && section.level <= maxLevel
+  );
+  const baseLevel = Math.min(...entries.map((section) => section.level));
+
+  return entries.map((section) => {
+    // Links in a title keep only their text
+    const text = section.title.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1").replace(/([[\]])/g, "\\$1");
+    return `${"  ".repeat(section.level - baseLevel)}- [${text}](#${section.id})`;
+  });
+}
+
+/**
+ * Apply a generate-toc patch. Running it again refreshes the table of contents.
+ */
+function applyGenerateToc(
+  content: string,
+  patch: GenerateTocPatch,
+  warnings: string[],
+  filePath: string
+): { content: string; applied: boolean } {
+  const { section: selector, minLevel = 2, maxLevel = 6, onNoMatch } = patch;
+
+  const lines = content.split("\n");
+  const sections = parseSections(content);
+
+  // Excluded sections take their subsections with them
+  const excluded = new Set<Section>();
+  for (const exclude of patch.excludeSections ?? []) {
+    const section = findSection(sections, exclude);
+    if (section) {
+      for (const s of sections) {
+        if (s.startLine >= section.startLine && s.startLine <= section.endLine) {
+          excluded.add(s);
+        }
+      }
+    }
+  }
+
+  if (selector) {
+    const section = findSection(sections, selector);
+    if (!section) {
+      handleNoMatch(
+        onNoMatch,
+        `Patch 'generate-toc' did not match: section "${selector}" not found in ${filePath}`,
+        warnings
+      );
+      return { content, applied: false };
+    }
+
+    // The table of contents replaces the section's content above its first subsection
+    excluded.add(section);
+    const toc = buildToc(sections, minLevel, maxLevel, excluded);
+    const ownEnd = getSectionEndLine(sections, section, false);
+    lines.splice(section.headerEndLine + 1, ownEnd - section.headerEndLine, "", ...toc, "");
+    return { content: lines.join("\n"), applied: true };
+  }
+
+  const start = patch.start ?? TOC_START_MARKER;
+  const end = patch.end ?? TOC_END_MARKER;
+  const markers = findBetweenMarkers(lines, start, end);
+
+  if (!markers) {
+    handleNoMatch(
+      onNoMatch,
+      `Patch 'generate-toc' did not match: markers not found in ${filePath}`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  const toc = buildToc(sections, minLevel, maxLevel, excluded);
+  lines.splice(markers.startIndex + 1, markers.endIndex - markers.startIndex - 1, ...toc);
+  return { content: lines.join("\n"), applied: true };
+}
+
+/**
+ * File and anchor changes that rewrite-links keeps link targets in sync with
+ */
+export interface LinkContext {
+  /** Files moved or renamed by file operations (old path -> new path) */
+  renamedFiles: Map<string, string>;
+  /** Header slugs changed by rename-header, by (new) file path (old slug -> new slug) */
+  anchorRenames: Map<string, Map<string, string>>;
+}
+
+/**
+ * Link targets: inline links and images (`](target`), reference definitions
+ * (`[label]: target`) and autolinks (`<scheme:...>`)
+ */
+const LINK_TARGET_REGEX =
+  /^( {0,3}\[[^\]]+\]:[ \t]*)(<[^>\n]*>|\S+)|(\]\()(<[^>\n]*>|[^\s)]+)|<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/g;
+
+/**
+ * Inline code spans, whose contents are never rewritten
+ */
+const CODE_SPAN_REGEX = /(`+)[^`][\s\S]*?(?<!`)\1(?!`)|(`+)(?!`)/g;
+
+/**
+ * URL scheme prefix, e.g. "https:" or "mailto:"
+ */
+const URL_SCHEME_REGEX = /^[a-zA-Z][a-zA-Z0-9+.-]*:/;
+
+/**
+ * A link target found in markdown content
+ */
+export interface MarkdownLink {
+  /** Link target, without the angle brackets of `<target>` destinations */
+  target: string;
+  /** 0-based line of the link */
+  line: number;
+}
+
+/**
+ * Replace the target of every inline link, image, reference definition and
+ * autolink outside code blocks and inline code.
+ */
+function mapLinkTargets(content: string, map: (target: string, line: number) => string): string {
+  const lines = content.split("\n");
+  const literal = findLiteralLines(lines);
+
+  const mapText = (text: string, line: number, lineStart: boolean): string => {
+    const mapTarget = (target: string): string =>
+      // Angle-bracketed destinations keep their brackets
+      target.startsWith("<") && target.endsWith(">")
+        ? `<${map(target.slice(1, -1), line)}>`
+        : map(target, line);
+
+    return text.replace(
+      LINK_TARGET_REGEX,
+      (match, defPrefix?: string, defTarget?: string, open?: string, target?: string, autolink?: string) => {
+        if (defPrefix !== undefined) {
+          // A reference definition only counts at the start of the line
+          return lineStart ? defPrefix + mapTarget(defTarget!) : match;
+        }
+        if (open !== undefined) {
+          return open + mapTarget(target!);
+        }
+        return `<${map(autolink!, line)}>`;
+      }
+    );
+  };
+
+  for (const [i, line] of lines.entries()) {
+    if (literal[i]) {
+      continue;
+    }
+
+    // Map the text between code spans
+    let result = "";
+    let last = 0;
+    for (const span of line.matchAll(CODE_SPAN_REGEX)) {
+      result += mapText(line.slice(last, span.index), i, last === 0) + span[0];
+      last = span.index! + span[0].length;
+    }
+    lines[i] = result + mapText(line.slice(last), i, last === 0);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Find the link targets in markdown content, skipping code blocks and inline code.
  */
-function applyRenameHeader(
-  content: string,
-  patch: RenameHeaderPatch,
-  warnings: string[],
-  filePath: string
-): { content: string; applied: boolean } {
-  const { id, new: newTitle, onNoMatch } = patch;
+export function findLinks(content: string): MarkdownLink[] {
+  const links: MarkdownLink[] = [];
+  mapLinkTargets(content, (target, line) => {
+    links.push({ target, line });
+    return target;
+  });
+  return links;
+}
 
-  const sections = parseSections(content);
-  const section = findSectionById(sections, id);
+/**
+ * Build the context rewrite-links needs to follow file moves and header renames.
+ * Header renames are found by running the rename-header patches on each file
+ * and comparing its section slugs before and after.
+ *
+ * @param patches - Patches of the build (file operations already applied)
+ * @param resources - Files after file operations
+ * @param renamedFiles - Renamed files from the file operations result
+ * @param groupOptions - Optional group filtering options
+ * @returns The link context, or undefined if no rewrite-links patch exists
+ */
+export function createLinkContext(
+  patches: Patch[],
+  resources: ResourceFile[],
+  renamedFiles: Map<string, string>,
+  groupOptions?: GroupOptions
+): LinkContext | undefined {
+  const resolvedPatches = resolveExtends(patches);
+  if (!resolvedPatches.some((patch) => patch.op === "rewrite-links")) {
+    return undefined;
+  }
 
-  if (!section) {
-    handleNoMatch(
-      onNoMatch,
-      `Patch 'rename-header' did not match: section "${id}" not found in ${filePath}`,
-      warnings
+  const anchorRenames = new Map<string, Map<string, string>>();
+
+  for (const resource of resources) {
+    const renames = resolvedPatches.filter(
+      (patch): patch is RenameHeaderPatch =>
+        patch.op === "rename-header" &&
+        shouldApplyPatch(patch, resource.relativePath) &&
+        shouldApplyByGroup(patch, groupOptions) &&
+        (!patch.where || matchesWhere(resource.content, patch.where))
     );
-    return { content, applied: false };
-  }
+    if (renames.length === 0) {
+      continue;
+    }
 
-  const lines = content.split("\n");
-  const headerLine = lines[section.headerLine];
+    let content = resource.content;
+    for (const patch of renames) {
+      content = applyRenameHeader(content, { ...patch, onNoMatch: "skip" }, [], resource.relativePath).content;
+    }
 
-  // Preserve the header level (number of #)
-  const levelMatch = headerLine.match(/^(#{1,6})\s+/);
-  if (!levelMatch) {
-    return { content, applied: false };
+    // Renaming headers keeps the sections in place, so compare them by index
+    const before = parseSections(resource.content);
+    const after = parseSections(content);
+    const slugs = new Map<string, string>();
+    for (const [i, section] of before.entries()) {
+      if (after[i] && after[i].id !== section.id) {
+        slugs.set(section.id, after[i].id);
+      }
+    }
+    if (slugs.size > 0) {
+      anchorRenames.set(resource.relativePath, slugs);
+    }
   }
 
-  const level = levelMatch[1];
-  lines[section.headerLine] = `${level} ${newTitle}`;
-
-  return { content: lines.join("\n"), applied: true };
+  return { renamedFiles, anchorRenames };
 }
 
 /**
- * Apply a move-section patch.
+ * Rewrite a single link target: prefix mapping, host mapping, relative paths
+ * of moved files and anchors of renamed headers, in that order.
  */
-function applyMoveSection(
-  content: string,
-  patch: MoveSectionPatch,
-  warnings: string[],
-  filePath: string
-): { content: string; applied: boolean } {
-  const { id, after, before, onNoMatch } = patch;
-
-  const sections = parseSections(content);
-  const section = findSectionById(sections, id);
+function rewriteLinkTarget(
+  target: string,
+  patch: RewriteLinksPatch,
+  filePath: string,
+  context?: LinkContext
+): string {
+  let result = target;
 
-  if (!section) {
-    handleNoMatch(
-      onNoMatch,
-      `Patch 'move-section' did not match: section "${id}" not found in ${filePath}`,
-      warnings
-    );
-    return { content, applied: false };
+  const prefix = Object.keys(patch.prefixes ?? {})
+    .filter((p) => result.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix !== undefined) {
+    result = patch.prefixes![prefix] + result.slice(prefix.length);
   }
 
-  // Find target section
-  const targetId = after || before;
-  if (!targetId) {
-    handleNoMatch(
-      onNoMatch,
-      `Patch 'move-section' requires either 'after' or 'before' to be specified`,
-      warnings
-    );
-    return { content, applied: false };
+  const hostMatch = /^([a-zA-Z][a-zA-Z0-9+.-]*:\/\/)([^/?#]+)(.*)$/.exec(result);
+  if (hostMatch && patch.hosts && Object.hasOwn(patch.hosts, hostMatch[2])) {
+    result = hostMatch[1] + patch.hosts[hostMatch[2]] + hostMatch[3];
   }
 
-  const targetSection = findSectionById(sections, targetId);
-  if (!targetSection) {
-    handleNoMatch(
-      onNoMatch,
-      `Patch 'move-section' did not match: target section "${targetId}" not found in ${filePath}`,
-      warnings
-    );
-    return { content, applied: false };
+  if (!context || URL_SCHEME_REGEX.test(result) || result.startsWith("/")) {
+    return result;
   }
 
-  const lines = content.split("\n");
-
-  // Extract the section content (including header and children)
-  const sectionLines = lines.slice(section.startLine, section.endLine + 1);
-
-  // Remove the section from its original position
-  const withoutSection = [
-    ...lines.slice(0, section.startLine),
-    ...lines.slice(section.endLine + 1),
-  ];
-
-  // Recalculate target position after removal
-  let targetLine: number;
-  if (section.startLine < targetSection.startLine) {
-    // Section was before target, adjust for removal
-    const removedLines = section.endLine - section.startLine + 1;
-    if (after) {
-      targetLine = targetSection.endLine - removedLines + 1;
-    } else {
-      targetLine = targetSection.startLine - removedLines;
+  // A relative target: path, then query and fragment
+  const hashIndex = result.indexOf("#");
+  const fragment = hashIndex === -1 ? undefined : result.slice(hashIndex + 1);
+  const beforeHash = hashIndex === -1 ? result : result.slice(0, hashIndex);
+  const queryIndex = beforeHash.indexOf("?");
+  let path = queryIndex === -1 ? beforeHash : beforeHash.slice(0, queryIndex);
+  const query = queryIndex === -1 ? "" : beforeHash.slice(queryIndex);
+
+  let linkedFile = filePath;
+  if (path !== "") {
+    // Resolve against where the file was before it moved
+    let sourcePath = filePath;
+    for (const [oldPath, newPath] of context.renamedFiles) {
+      if (newPath === filePath) {
+        sourcePath = oldPath;
+        break;
+      }
     }
-  } else {
-    // Section was after target, no adjustment needed
-    if (after) {
-      targetLine = targetSection.endLine + 1;
-    } else {
-      targetLine = targetSection.startLine;
+    const resolved = posix.normalize(posix.join(posix.dirname(sourcePath), path));
+    linkedFile = context.renamedFiles.get(resolved) ?? resolved;
+
+    if (patch.relative !== false) {
+      const current = posix.normalize(posix.join(posix.dirname(filePath), path));
+      if (current !== linkedFile) {
+        const relativePath = posix.relative(posix.dirname(filePath), linkedFile);
+        path = path.startsWith("./") && !relativePath.startsWith("../")
+          ? `./${relativePath}`
+          : relativePath;
+      }
     }
   }
 
-  // Insert section at new position
-  const result = [
-    ...withoutSection.slice(0, targetLine),
-    ...sectionLines,
-    ...withoutSection.slice(targetLine),
-  ];
+  let newFragment = fragment;
+  if (fragment !== undefined && patch.anchors !== false) {
+    newFragment = context.anchorRenames.get(linkedFile)?.get(fragment) ?? fragment;
+  }
 
-  return { content: result.join("\n"), applied: true };
+  return path + query + (newFragment === undefined ? "" : `#${newFragment}`);
 }
 
 /**
- * Apply a change-section-level patch.
+ * Apply a rewrite-links patch. Links in code blocks and inline code are left
+ * alone. A file without links to rewrite is not a no-match, since the op is
+ * usually applied to every file.
  */
-function applyChangeSectionLevel(
+function applyRewriteLinks(
   content: string,
-  patch: ChangeSectionLevelPatch,
-  warnings: string[],
-  filePath: string
+  patch: RewriteLinksPatch,
+  filePath: string,
+  context?: LinkContext
 ): { content: string; applied: boolean } {
-  const { id, delta, onNoMatch } = patch;
-
-  const sections = parseSections(content);
-  const section = findSectionById(sections, id);
-
-  if (!section) {
-    handleNoMatch(
-      onNoMatch,
-      `Patch 'change-section-level' did not match: section "${id}" not found in ${filePath}`,
-      warnings
-    );
-    return { content, applied: false };
-  }
-
-  const lines = content.split("\n");
-
-  // Change the level of this section and all its children
-  for (let i = section.startLine; i <= section.endLine; i++) {
-    const line = lines[i];
-    const headerMatch = line.match(/^(#{1,6})\s+(.+)$/);
-
-    if (headerMatch) {
-      const currentLevel = headerMatch[1].length;
-      const title = headerMatch[2];
-      const newLevel = Math.max(1, Math.min(6, currentLevel + delta));
-      lines[i] = "#".repeat(newLevel) + " " + title;
-    }
-  }
+  const result = mapLinkTargets(content, (target) =>
+    rewriteLinkTarget(target, patch, filePath, context)
+  );
 
-  return { content: lines.join("\n"), applied: true };
+  return { content: result, applied: result !== content };
 }
 
 /**
@@ -1096,8 +3136,9 @@ function applySinglePatch(
   content: string,
   patch: OpPatch,
   warnings: string[],
-  filePath: string
-): { content: string; applied: boolean } {
+  filePath: string,
+  linkContext?: LinkContext
+): PatchOutcome {
   // File operations are handled separately by file-operations.ts
   if (isFileOperationPatch(patch)) {
     return { content, applied: false };
@@ -1124,6 +3165,14 @@ function applySinglePatch(
       return applyRenameFrontmatter(content, patch, warnings, filePath);
     case "merge-frontmatter":
       return applyMergeFrontmatter(content, patch, warnings, filePath);
+    case "append-to-frontmatter":
+      return applyAppendToFrontmatter(content, patch, warnings, filePath);
+    case "remove-from-frontmatter":
+      return applyRemoveFromFrontmatter(content, patch, warnings, filePath);
+    case "dedupe-frontmatter":
+      return applyDedupeFrontmatter(content, patch, warnings, filePath);
+    case "sort-frontmatter":
+      return applySortFrontmatter(content, patch, warnings, filePath);
     case "insert-after-line":
       return applyInsertAfterLine(content, patch, warnings, filePath);
     case "insert-before-line":
@@ -1140,6 +3189,38 @@ function applySinglePatch(
       return applyMoveSection(content, patch, warnings, filePath);
     case "change-section-level":
       return applyChangeSectionLevel(content, patch, warnings, filePath);
+    case "insert-section":
+      return applyInsertSection(content, patch, warnings, filePath);
+    case "table-add-row":
+      return applyTableAddRow(content, patch, warnings, filePath);
+    case "table-remove-rows":
+      return applyTableRemoveRows(content, patch, warnings, filePath);
+    case "table-set-cell":
+      return applyTableSetCell(content, patch, warnings, filePath);
+    case "table-add-column":
+      return applyTableAddColumn(content, patch, warnings, filePath);
+    case "table-remove-column":
+      return applyTableRemoveColumn(content, patch, warnings, filePath);
+    case "table-sort":
+      return applyTableSort(content, patch, warnings, filePath);
+    case "list-add-item":
+      return applyListAddItem(content, patch, warnings, filePath);
+    case "list-remove-items":
+      return applyListRemoveItems(content, patch, warnings, filePath);
+    case "list-replace-item":
+      return applyListReplaceItem(content, patch, warnings, filePath);
+    case "replace-code-block":
+      return applyReplaceCodeBlock(content, patch, warnings, filePath);
+    case "replace-in-code-block":
+      return applyReplaceInCodeBlock(content, patch, warnings, filePath);
+    case "change-code-block-language":
+      return applyChangeCodeBlockLanguage(content, patch, warnings, filePath);
+    case "remove-code-block":
+      return applyRemoveCodeBlock(content, patch, warnings, filePath);
+    case "generate-toc":
+      return applyGenerateToc(content, patch, warnings, filePath);
+    case "rewrite-links":
+      return applyRewriteLinks(content, patch, filePath, linkContext);
     default: {
       // TypeScript exhaustiveness check
       const _exhaustive: never = patch;
@@ -1282,12 +3363,37 @@ export function resolveExtends(patches: Patch[]): OpPatch[] {
   }
 
   for (const patch of patches) {
-    resolved.push(resolvePatch(patch));
+    const resolvedPatch = resolvePatch(patch);
+
+    // Inline or from a file, possibly inherited, the text must be there now
+    const field = FILE_BACKED_FIELDS[resolvedPatch.op];
+    if (field && typeof (resolvedPatch as Record<string, unknown>)[field] !== "string") {
+      throw new Error(missingTextMessage(resolvedPatch, field));
+    }
+
+    resolved.push(resolvedPatch);
   }
 
   return resolved;
 }
 
+/**
+ * Apply a config-level onNoMatch default to patches that don't set their own.
+ *
+ * @param patches - Resolved patches from a single config layer
+ * @param onNoMatch - The config's top-level onNoMatch setting
+ * @returns Patches with onNoMatch filled in where it was missing
+ */
+export function withDefaultOnNoMatch(patches: OpPatch[], onNoMatch: OnNoMatch | undefined): OpPatch[] {
+  if (!onNoMatch) {
+    return patches;
+  }
+
+  return patches.map((patch) =>
+    patch.onNoMatch === undefined ? { ...patch, onNoMatch } : patch
+  );
+}
+
 /**
  * Check if a patch should be applied based on group filtering.
  *
@@ -1319,6 +3425,210 @@ function shouldApplyByGroup(patch: OpPatch, groupOptions?: GroupOptions): boolea
   return true;
 }
 
+/**
+ * Describe a `within` scope for messages.
+ */
+export function describeWithin(within: PatchWithin): string {
+  if (typeof within === "string") {
+    return within;
+  }
+  return `section "${within.section}"${within.includeChildren === false ? " (without children)" : ""}`;
+}
+
+/**
+ * Resolve a `within` scope to a character range of the content, or null
+ * if the frontmatter or section doesn't exist.
+ */
+export function resolveWithin(
+  content: string,
+  within: PatchWithin
+): { start: number; end: number } | null {
+  if (typeof within === "string") {
+    const match = content.match(FRONTMATTER_SPAN_REGEX);
+    if (within === "frontmatter") {
+      // The YAML between the --- delimiters
+      return match ? { start: match[1].length, end: match[1].length + match[2].length } : null;
+    }
+    return { start: match ? match[0].length : 0, end: content.length };
+  }
+
+  const sections = parseSections(content);
+  const section = findSection(sections, within.section);
+  if (!section) {
+    return null;
+  }
+
+  // Section content below the header, as character offsets
+  const lines = content.split("\n");
+  const lineOffset = (line: number): number =>
+    line >= lines.length
+      ? content.length
+      : lines.slice(0, line).reduce((sum, l) => sum + l.length + 1, 0);
+  const lastLine = getSectionEndLine(sections, section, within.includeChildren ?? true);
+
+  return { start: lineOffset(section.headerEndLine + 1), end: lineOffset(lastLine + 1) };
+}
+
+/**
+ * Check a frontmatter value (undefined if the key is missing) against a
+ * `where` predicate.
+ */
+function matchesPredicate(value: unknown, predicate: WherePredicate): boolean {
+  if (predicate === null || typeof predicate !== "object") {
+    return sameValue(value, predicate);
+  }
+
+  const { equals, in: oneOf, exists, not, arrayContains } = predicate;
+  if (equals !== undefined && !sameValue(value, equals)) {
+    return false;
+  }
+  if (oneOf !== undefined && !oneOf.some((candidate) => sameValue(value, candidate))) {
+    return false;
+  }
+  if (exists !== undefined && (value !== undefined) !== exists) {
+    return false;
+  }
+  if (not !== undefined && sameValue(value, not)) {
+    return false;
+  }
+  if (
+    arrayContains !== undefined &&
+    !(Array.isArray(value) && value.some((item) => sameValue(item, arrayContains)))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check whether content's frontmatter satisfies every predicate of a `where`
+ * clause. A file without frontmatter is treated as having no keys.
+ */
+export function matchesWhere(content: string, where: PatchWhere): boolean {
+  const frontmatter = parseFrontmatter(content).frontmatter || {};
+  return Object.entries(where).every(([key, predicate]) =>
+    matchesPredicate(getNestedValue(frontmatter, key), predicate)
+  );
+}
+
+/**
+ * Describe a `where` clause for messages, e.g. `category = "git" and draft != true`.
+ */
+export function describeWhere(where: PatchWhere): string {
+  const conditions: string[] = [];
+
+  for (const [key, predicate] of Object.entries(where)) {
+    if (predicate === null || typeof predicate !== "object") {
+      conditions.push(`${key} = ${JSON.stringify(predicate)}`);
+      continue;
+    }
+    if (predicate.equals !== undefined) {
+      conditions.push(`${key} = ${JSON.stringify(predicate.equals)}`);
+    }
+    if (predicate.in !== undefined) {
+      conditions.push(`${key} in ${JSON.stringify(predicate.in)}`);
+    }
+    if (predicate.exists !== undefined) {
+      conditions.push(predicate.exists ? `${key} exists` : `${key} is missing`);
+    }
+    if (predicate.not !== undefined) {
+      conditions.push(`${key} != ${JSON.stringify(predicate.not)}`);
+    }
+    if (predicate.arrayContains !== undefined) {
+      conditions.push(`${key} contains ${JSON.stringify(predicate.arrayContains)}`);
+    }
+  }
+
+  return conditions.join(" and ");
+}
+
+/**
+ * Apply a patch to its `within` scope (or the whole content): the op,
+ * its onNoMatch handling and its per-patch validation all see only the slice.
+ */
+function applyScopedPatch(
+  content: string,
+  patch: OpPatch,
+  warnings: string[],
+  filePath: string,
+  linkContext?: LinkContext
+): PatchOutcome {
+  const within = patch.within && WITHIN_OPS.has(patch.op) ? patch.within : undefined;
+  const range = within ? resolveWithin(content, within) : { start: 0, end: content.length };
+
+  if (!range) {
+    handleNoMatch(
+      patch.onNoMatch,
+      `Patch '${patch.op}' did not match: ${describeWithin(within!)} not found in ${filePath}`,
+      warnings
+    );
+    return { content, applied: false };
+  }
+
+  const slice = content.slice(range.start, range.end);
+  const result = applySinglePatch(slice, patch, warnings, filePath, linkContext);
+
+  if (result.applied && patch.validate) {
+    const validationError = runPatchValidation(result.content, patch.validate);
+    if (validationError) {
+      warnings.push(`Validation failed for patch '${patch.op}' on ${filePath}: ${validationError}`);
+    }
+  }
+
+  return {
+    content: content.slice(0, range.start) + result.content + content.slice(range.end),
+    applied: result.applied,
+    occurrences: result.occurrences,
+  };
+}
+
+/**
+ * Build-wide context for applyPatches
+ */
+export interface PatchContext {
+  /** File moves and header renames for rewrite-links (see createLinkContext) */
+  links?: LinkContext;
+  /** Config variables for ${vars.<name>} in patch content */
+  vars?: Record<string, string>;
+  /** Config snippets for ${snippets.<name>} in patch content */
+  snippets?: Record<string, Snippet>;
+}
+
+/**
+ * Interpolate the content fields of a patch for one file, against the
+ * frontmatter left by earlier patches. Returns the references without a value.
+ */
+function interpolatePatch(
+  patch: OpPatch,
+  content: string,
+  filePath: string,
+  context: PatchContext = {}
+): { patch: OpPatch; missing: string[] } {
+  const fields = INTERPOLATED_FIELDS.filter((field) => {
+    const value = (patch as Record<string, unknown>)[field];
+    return typeof value === "string" && value.includes("${");
+  });
+  if (fields.length === 0) {
+    return { patch, missing: [] };
+  }
+
+  const values = {
+    frontmatter: parseFrontmatter(content).frontmatter || {},
+    filePath,
+    vars: context.vars ?? {},
+    snippets: context.snippets ?? {},
+  };
+  const filled: Record<string, unknown> = { ...patch };
+  const missing: string[] = [];
+  for (const field of fields) {
+    const result = interpolate(filled[field] as string, values);
+    filled[field] = result.text;
+    missing.push(...result.missing);
+  }
+
+  return { patch: filled as OpPatch, missing };
+}
+
 /**
  * Apply an array of patches to markdown content.
  *
@@ -1326,22 +3636,25 @@ function shouldApplyByGroup(patch: OpPatch, groupOptions?: GroupOptions): boolea
  * @param patches - Array of patches to apply in order
  * @param filePath - Path of the file being patched (for include/exclude matching)
  * @param groupOptions - Optional group filtering options
+ * @param context - Link context and config variables and snippets of the build
  * @returns PatchResult with patched content, count of applied patches, and warnings
  */
 export function applyPatches(
   content: string,
   patches: Patch[],
   filePath: string,
-  groupOptions?: GroupOptions
+  groupOptions?: GroupOptions,
+  context?: PatchContext
 ): PatchResult {
   let currentContent = content;
   let applied = 0;
   const warnings: string[] = [];
+  const occurrences: PatchOccurrences[] = [];
 
   // Resolve patch inheritance before applying
   const resolvedPatches = resolveExtends(patches);
 
-  for (const patch of resolvedPatches) {
+  for (const [patchIndex, patch] of resolvedPatches.entries()) {
     // Check if patch should be applied to this file
     if (!shouldApplyPatch(patch, filePath)) {
       continue;
@@ -1352,18 +3665,35 @@ export function applyPatches(
       continue;
     }
 
-    const result = applySinglePatch(currentContent, patch, warnings, filePath);
+    // File operations are handled separately by file-operations.ts
+    if (isFileOperationPatch(patch)) {
+      continue;
+    }
+
+    // Check the file's frontmatter (as left by earlier patches) against `where`
+    if (patch.where && !matchesWhere(currentContent, patch.where)) {
+      continue;
+    }
+
+    // Fill in the ${...} variables of its content fields for this file
+    const { patch: filledPatch, missing } = interpolatePatch(patch, currentContent, filePath, context);
+    if (missing.length > 0) {
+      handleNoMatch(
+        patch.onNoMatch,
+        `Patch '${patch.op}' did not match: ${missing.join(", ")} has no value in ${filePath}`,
+        warnings
+      );
+      continue;
+    }
+
+    // Applies the patch and its per-patch validation
+    const result = applyScopedPatch(currentContent, filledPatch, warnings, filePath, context?.links);
     currentContent = result.content;
     if (result.applied) {
       applied++;
-
-      // Run per-patch validation if specified
-      if (patch.validate) {
-        const validationError = runPatchValidation(currentContent, patch.validate);
-        if (validationError) {
-          warnings.push(`Validation failed for patch '${patch.op}' on ${filePath}: ${validationError}`);
-        }
-      }
+    }
+    if (result.occurrences) {
+      occurrences.push({ patchIndex, op: patch.op, ...result.occurrences });
     }
   }
 
@@ -1371,5 +3701,6 @@ export function applyPatches(
     content: currentContent,
     applied,
     warnings,
+    occurrences,
   };
 }
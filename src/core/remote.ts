@@ -1,7 +1,9 @@
-import { mkdir, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
 import { join, dirname } from "path";
 import { homedir, tmpdir } from "os";
 import { spawn } from "child_process";
+import { createHash } from "crypto";
+import type { ResourceAuth, SecurityConfig } from "./config.js";
 
 /**
  * Types of remote resources
@@ -23,6 +25,10 @@ export interface ParsedRemoteUrl {
   ref?: string;
   /** Whether this is a GitHub shorthand URL */
   isGitHubShorthand?: boolean;
+  /** Transport protocol (https, http, ssh, git) for remote resources */
+  protocol?: string;
+  /** Hostname the resource is fetched from */
+  host?: string;
 }
 
 /**
@@ -52,6 +58,39 @@ export interface FetchResult {
   error?: string;
 }
 
+/**
+ * A cached remote resource as reported by listCache
+ */
+export interface RemoteCacheEntry {
+  key: string;
+  path: string;
+  /** Size on disk in bytes (including git metadata) */
+  size: number;
+  type: "git" | "http";
+  /** Commit SHA checked out in the cache (git only) */
+  resolved?: string;
+  /** Last modification time of the cache entry (ISO 8601) */
+  modified: string;
+}
+
+/**
+ * Options for fetching a remote resource
+ */
+export interface FetchOptions {
+  cacheDir?: string;
+  noCache?: boolean;
+  /** Commit SHA pinned by the lock file; checked out instead of the URL's ref */
+  pinnedRef?: string;
+  /** Fail instead of touching the network when the resource isn't cached */
+  offline?: boolean;
+  /** Credentials for HTTP resources, read from environment variables */
+  auth?: ResourceAuth;
+  /** Expected sha256 of the downloaded file or archive (HTTP only) */
+  sha256?: string;
+  /** Allowlists of the config and every layer above it; all must allow the resource */
+  security?: SecurityConfig[];
+}
+
 /**
  * Default cache directory
  */
@@ -79,6 +118,31 @@ export function isRemoteResource(resource: string): boolean {
   return false;
 }
 
+/**
+ * Get the protocol and hostname of a fetch URL, including scp-like
+ * ssh URLs such as git@github.com:org/repo.git
+ */
+function getUrlOrigin(url: string): { protocol?: string; host?: string } {
+  const schemeMatch = url.match(/^([a-z][a-z0-9+.-]*):\/\//i);
+  if (schemeMatch) {
+    try {
+      return {
+        protocol: schemeMatch[1].toLowerCase(),
+        host: new URL(url).hostname.toLowerCase(),
+      };
+    } catch {
+      return { protocol: schemeMatch[1].toLowerCase() };
+    }
+  }
+
+  const scpMatch = url.match(/^(?:[^@/]+@)?([^:/]+):/);
+  if (scpMatch) {
+    return { protocol: "ssh", host: scpMatch[1].toLowerCase() };
+  }
+
+  return {};
+}
+
 /**
  * Parse a remote resource URL into its components
  */
@@ -105,6 +169,8 @@ export function parseRemoteUrl(resource: string): ParsedRemoteUrl {
       subpath: subpath || "",
       ref,
       isGitHubShorthand: true,
+      protocol: "https",
+      host: "github.com",
     };
   }
 
@@ -119,8 +185,8 @@ export function parseRemoteUrl(resource: string): ParsedRemoteUrl {
     let fetchUrl: string;
     let subpath: string;
 
-    // Match pattern: look for // that's not part of http:// or https://
-    const protocolMatch = urlPart.match(/^(https?:\/\/)/);
+    // Match pattern: look for // that's not part of the scheme (https://, ssh://, ...)
+    const protocolMatch = urlPart.match(/^([a-z][a-z0-9+.-]*:\/\/)/i);
     if (protocolMatch) {
       // URL has protocol, look for // after the protocol
       const afterProtocol = urlPart.slice(protocolMatch[0].length);
@@ -152,6 +218,7 @@ export function parseRemoteUrl(resource: string): ParsedRemoteUrl {
       fetchUrl,
       subpath: subpath || "",
       ref,
+      ...getUrlOrigin(fetchUrl),
     };
   }
 
@@ -170,6 +237,7 @@ export function parseRemoteUrl(resource: string): ParsedRemoteUrl {
           original: resource,
           fetchUrl,
           subpath,
+          ...getUrlOrigin(fetchUrl),
         };
       }
     }
@@ -179,6 +247,7 @@ export function parseRemoteUrl(resource: string): ParsedRemoteUrl {
       original: resource,
       fetchUrl: resource,
       subpath: "",
+      ...getUrlOrigin(resource),
     };
   }
 
@@ -191,12 +260,114 @@ export function parseRemoteUrl(resource: string): ParsedRemoteUrl {
   };
 }
 
+/**
+ * Check whether a hostname matches an allowedHosts entry
+ */
+function hostMatches(pattern: string, host: string): boolean {
+  const normalized = pattern.toLowerCase();
+  if (normalized.startsWith("*.")) {
+    return host.endsWith(normalized.slice(1));
+  }
+  return host === normalized;
+}
+
+/**
+ * Check a parsed remote URL against security allowlists. Every policy must
+ * allow the resource, so nested layers can only narrow their parents' lists.
+ * @returns A violation message, or undefined if the resource is allowed
+ */
+export function checkSecurityPolicy(
+  parsed: ParsedRemoteUrl,
+  policies: SecurityConfig[] = []
+): string | undefined {
+  const url = redactUrl(parsed.original);
+
+  for (const policy of policies) {
+    if (policy.allowedProtocols) {
+      const allowed: string[] = policy.allowedProtocols;
+      if (!parsed.protocol || !allowed.includes(parsed.protocol)) {
+        return `Security policy violation: protocol '${parsed.protocol ?? "unknown"}' is not allowed for ${url} (allowedProtocols: ${allowed.join(", ")})`;
+      }
+    }
+
+    if (policy.allowedHosts) {
+      const host = parsed.host;
+      if (!host || !policy.allowedHosts.some((pattern) => hostMatches(pattern, host))) {
+        return `Security policy violation: host '${host ?? "unknown"}' is not allowed for ${url} (allowedHosts: ${policy.allowedHosts.join(", ")})`;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Replace credentials embedded in a URL (user:password@host) with "***"
+ */
+export function redactUrl(url: string): string {
+  return url.replace(/^([a-z][a-z0-9+.-]*:\/\/)[^/@\s]+@/i, "$1***@");
+}
+
+/**
+ * Replace any secret values and URL credentials in a message with "***"
+ */
+export function redactSecrets(message: string, secrets: string[] = []): string {
+  let redacted = message.replace(/([a-z][a-z0-9+.-]*:\/\/)[^/@\s]+@/gi, "$1***@");
+  for (const secret of secrets) {
+    if (secret) {
+      redacted = redacted.split(secret).join("***");
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Build the HTTP headers for an authenticated resource from environment variables
+ * @returns The headers and the secret values they contain (for redaction)
+ * @throws Error naming the variable (never its value) if one is not set
+ */
+export function getAuthHeaders(auth: ResourceAuth | undefined): {
+  headers: Record<string, string>;
+  secrets: string[];
+} {
+  if (!auth) {
+    return { headers: {}, secrets: [] };
+  }
+
+  const readEnv = (name: string): string => {
+    const value = process.env[name];
+    if (!value) {
+      throw new Error(`Environment variable ${name} is not set (required for ${auth.type} auth)`);
+    }
+    return value;
+  };
+
+  switch (auth.type) {
+    case "bearer": {
+      const token = readEnv(auth.tokenEnv);
+      return { headers: { Authorization: `Bearer ${token}` }, secrets: [token] };
+    }
+
+    case "basic": {
+      const username = readEnv(auth.usernameEnv);
+      const password = readEnv(auth.passwordEnv);
+      const encoded = Buffer.from(`${username}:${password}`).toString("base64");
+      return { headers: { Authorization: `Basic ${encoded}` }, secrets: [password, encoded] };
+    }
+
+    case "header": {
+      const value = readEnv(auth.valueEnv);
+      return { headers: { [auth.header]: value }, secrets: [value] };
+    }
+  }
+}
+
 /**
  * Generate a cache key for a remote URL
  */
 export function getCacheKey(parsed: ParsedRemoteUrl): string {
-  // Create a safe filename from the URL
-  const safeName = parsed.original
+  // Create a safe filename from the URL (credentials never end up on disk)
+  const safeName = redactUrl(parsed.original)
     .replace(/[^a-zA-Z0-9]/g, "_")
     .substring(0, 100);
 
@@ -344,13 +515,30 @@ async function getGitHeadSha(repoPath: string): Promise<string | undefined> {
   return undefined;
 }
 
+/**
+ * Result for a resource that would need the network while offline
+ */
+function offlineMiss(parsed: ParsedRemoteUrl): FetchResult {
+  return {
+    success: false,
+    files: [],
+    cached: false,
+    error: `Offline mode: ${redactUrl(parsed.original)} is not in the cache`,
+  };
+}
+
 /**
  * Fetch a git remote resource
  */
 export async function fetchGitResource(
   parsed: ParsedRemoteUrl,
-  options: { cacheDir?: string; noCache?: boolean } = {}
+  options: FetchOptions = {}
 ): Promise<FetchResult> {
+  // A locked SHA replaces the floating ref (and therefore the cache key)
+  if (options.pinnedRef) {
+    parsed = { ...parsed, ref: options.pinnedRef };
+  }
+
   const cacheDir = options.cacheDir || getCacheDir();
   const cacheKey = getCacheKey(parsed);
   const cachePath = join(cacheDir, "git", cacheKey);
@@ -374,18 +562,29 @@ export async function fetchGitResource(
     }
   }
 
+  if (options.offline) {
+    return offlineMiss(parsed);
+  }
+
   // Ensure cache directory exists
   await mkdir(dirname(cachePath), { recursive: true });
 
-  // Clone the repository
-  const cloneResult = await gitClone(parsed.fetchUrl, parsed.ref, cachePath);
-
-  if (!cloneResult.success) {
+  // Clone next to the cache entry and swap it in, so a refetch (noCache)
+  // replaces a warm entry and a failed clone leaves it intact
+  const clonePath = `${cachePath}.tmp-${process.pid}`;
+  await rm(clonePath, { recursive: true, force: true });
+  const cloneResult = await gitClone(parsed.fetchUrl, parsed.ref, clonePath);
+
+  if (cloneResult.success) {
+    await rm(cachePath, { recursive: true, force: true });
+    await rename(clonePath, cachePath);
+  } else {
+    await rm(clonePath, { recursive: true, force: true });
     return {
       success: false,
       files: [],
       cached: false,
-      error: cloneResult.error || "Git clone failed",
+      error: redactSecrets(cloneResult.error || "Git clone failed"),
     };
   }
 
@@ -452,14 +651,16 @@ async function extractZip(
 }
 
 /**
- * Download a file from a URL
+ * Download a file from a URL, verifying its sha256 before writing it
  */
 async function downloadFile(
   url: string,
-  destPath: string
+  destPath: string,
+  headers: Record<string, string> = {},
+  expectedSha256?: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const response = await fetch(url);
+    const response = await fetch(url, { headers });
 
     if (!response.ok) {
       return { success: false, error: `HTTP ${response.status}: ${response.statusText}` };
@@ -469,12 +670,23 @@ async function downloadFile(
       return { success: false, error: "No response body" };
     }
 
+    const data = Buffer.from(await response.arrayBuffer());
+
+    if (expectedSha256) {
+      const actual = createHash("sha256").update(data).digest("hex");
+      if (actual !== expectedSha256.toLowerCase()) {
+        return {
+          success: false,
+          error: `Checksum mismatch for ${redactUrl(url)}: expected sha256 ${expectedSha256.toLowerCase()}, got ${actual}`,
+        };
+      }
+    }
+
     // Ensure directory exists
     await mkdir(dirname(destPath), { recursive: true });
 
     // Write the response to a file
-    const arrayBuffer = await response.arrayBuffer();
-    await writeFile(destPath, Buffer.from(arrayBuffer));
+    await writeFile(destPath, data);
 
     return { success: true };
   } catch (err) {
@@ -488,10 +700,13 @@ async function downloadFile(
  */
 export async function fetchHttpResource(
   parsed: ParsedRemoteUrl,
-  options: { cacheDir?: string; noCache?: boolean } = {}
+  options: FetchOptions = {}
 ): Promise<FetchResult> {
   const cacheDir = options.cacheDir || getCacheDir();
-  const cacheKey = getCacheKey(parsed);
+  // Key the cache on the checksum too, so changing it invalidates the extraction
+  const cacheKey = options.sha256
+    ? `${getCacheKey(parsed)}_${options.sha256.toLowerCase().substring(0, 16)}`
+    : getCacheKey(parsed);
   const cachePath = join(cacheDir, "http", cacheKey);
 
   // Check cache first (unless noCache is set)
@@ -512,14 +727,34 @@ export async function fetchHttpResource(
     }
   }
 
+  if (options.offline) {
+    return offlineMiss(parsed);
+  }
+
+  let auth: { headers: Record<string, string>; secrets: string[] };
+  try {
+    auth = getAuthHeaders(options.auth);
+  } catch (err) {
+    return {
+      success: false,
+      files: [],
+      cached: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+
   // Determine archive type
   const archiveType = getArchiveType(parsed.fetchUrl);
 
   if (!archiveType) {
     // Not an archive - try to fetch as a single file
+    // Keep the original filename so cache hits report the same relative path
+    const filename = parsed.fetchUrl.split("/").pop() || "file";
     const downloadResult = await downloadFile(
       parsed.fetchUrl,
-      join(cachePath, "file")
+      join(cachePath, filename),
+      auth.headers,
+      options.sha256
     );
 
     if (!downloadResult.success) {
@@ -527,14 +762,13 @@ export async function fetchHttpResource(
         success: false,
         files: [],
         cached: false,
-        error: downloadResult.error,
+        error: redactSecrets(downloadResult.error ?? "Download failed", auth.secrets),
       };
     }
 
     // Read the single file
     try {
-      const content = await readFile(join(cachePath, "file"), "utf-8");
-      const filename = parsed.fetchUrl.split("/").pop() || "file";
+      const content = await readFile(join(cachePath, filename), "utf-8");
       return {
         success: true,
         files: [{ relativePath: filename, content }],
@@ -558,7 +792,12 @@ export async function fetchHttpResource(
 
   await mkdir(tempDir, { recursive: true });
 
-  const downloadResult = await downloadFile(parsed.fetchUrl, archivePath);
+  const downloadResult = await downloadFile(
+    parsed.fetchUrl,
+    archivePath,
+    auth.headers,
+    options.sha256
+  );
 
   if (!downloadResult.success) {
     await rm(tempDir, { recursive: true }).catch(() => {});
@@ -566,7 +805,7 @@ export async function fetchHttpResource(
       success: false,
       files: [],
       cached: false,
-      error: downloadResult.error,
+      error: redactSecrets(downloadResult.error ?? "Download failed", auth.secrets),
     };
   }
 
@@ -617,12 +856,33 @@ export async function fetchHttpResource(
  */
 export async function fetchRemoteResource(
   resource: string,
-  options: { cacheDir?: string; noCache?: boolean } = {}
+  options: FetchOptions = {}
 ): Promise<FetchResult> {
   const parsed = parseRemoteUrl(resource);
 
+  const violation = parsed.type === "local" ? undefined : checkSecurityPolicy(parsed, options.security);
+  if (violation) {
+    return { success: false, files: [], cached: false, error: violation };
+  }
+
   switch (parsed.type) {
     case "git":
+      if (options.sha256) {
+        return {
+          success: false,
+          files: [],
+          cached: false,
+          error: `sha256 checksums are only supported for HTTP resources (${redactUrl(resource)})`,
+        };
+      }
+      if (options.auth) {
+        return {
+          success: false,
+          files: [],
+          cached: false,
+          error: `auth is only supported for HTTP resources; git uses its own credentials (${redactUrl(resource)})`,
+        };
+      }
       return fetchGitResource(parsed, options);
 
     case "http":
@@ -677,14 +937,39 @@ export async function clearCache(
   return { cleared };
 }
 
+/**
+ * Calculate the on-disk size of a directory recursively
+ */
+async function getDirectorySize(dir: string): Promise<number> {
+  let size = 0;
+
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        size += await getDirectorySize(fullPath);
+      } else if (entry.isFile()) {
+        size += (await stat(fullPath)).size;
+      }
+    }
+  } catch {
+    // Directory doesn't exist or can't be read
+  }
+
+  return size;
+}
+
 /**
  * List cached resources
  */
 export async function listCache(
   options: { cacheDir?: string } = {}
-): Promise<Array<{ key: string; path: string; size: number; type: "git" | "http" }>> {
+): Promise<RemoteCacheEntry[]> {
   const cacheDir = options.cacheDir || getCacheDir();
-  const entries: Array<{ key: string; path: string; size: number; type: "git" | "http" }> = [];
+  const entries: RemoteCacheEntry[] = [];
 
   // List both git and http caches
   for (const subdir of ["git", "http"] as const) {
@@ -696,16 +981,15 @@ export async function listCache(
       for (const entry of dirEntries) {
         if (entry.isDirectory()) {
           const entryPath = join(typeCacheDir, entry.name);
-
-          // Calculate directory size (simplified - just count files)
-          const files = await readDirRecursive(entryPath, entryPath);
-          const size = files.reduce((acc, f) => acc + f.content.length, 0);
+          const entryStats = await stat(entryPath);
 
           entries.push({
             key: entry.name,
             path: entryPath,
-            size,
+            size: await getDirectorySize(entryPath),
             type: subdir,
+            resolved: subdir === "git" ? await getGitHeadSha(entryPath) : undefined,
+            modified: entryStats.mtime.toISOString(),
           });
         }
       }
@@ -716,3 +1000,23 @@ export async function listCache(
 
   return entries;
 }
+
+/**
+ * Remove cached resources that were last modified more than maxAge ago
+ */
+export async function pruneCache(
+  maxAge: number,
+  options: { cacheDir?: string } = {}
+): Promise<{ pruned: number }> {
+  const cutoff = Date.now() - maxAge;
+  let pruned = 0;
+
+  for (const entry of await listCache(options)) {
+    if (new Date(entry.modified).getTime() < cutoff) {
+      await rm(entry.path, { recursive: true, force: true });
+      pruned++;
+    }
+  }
+
+  return { pruned };
+}
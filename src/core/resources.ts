@@ -2,8 +2,42 @@ import { glob } from "glob";
 import { readFile } from "fs/promises";
 import { dirname, join, resolve, relative, isAbsolute } from "path";
 import { stat } from "fs/promises";
-import { loadConfigFile, type Patch } from "./config.js";
-import { isRemoteResource, fetchRemoteResource } from "./remote.js";
+import {
+  getPatchFiles,
+  loadConfigFile,
+  resolveVariableScope,
+  type KustomarkConfig,
+  type Resource,
+  type SecurityConfig,
+} from "./config.js";
+import {
+  checkSecurityPolicy,
+  isRemoteResource,
+  fetchRemoteResource,
+  parseRemoteUrl,
+  redactUrl,
+  type FetchOptions,
+  type FetchResult,
+} from "./remote.js";
+import {
+  applyPatches,
+  createLinkContext,
+  resolveExtends,
+  withDefaultOnNoMatch,
+  type GroupOptions,
+  type PatchContext,
+} from "./patches.js";
+import { applyFileOperations, applyFileOperationResults } from "./file-operations.js";
+import { formatValidationError, runGlobalValidators, runLinkValidators } from "./validation.js";
+import {
+  calculateFilesIntegrity,
+  createLockedResource,
+  findLockedResource,
+  verifyIntegrity,
+  type LockFile,
+  type LockedResource,
+} from "./lockfile.js";
+import type { VariableScope } from "./interpolation.js";
 
 /**
  * Represents a resolved file with its path information and content.
@@ -22,6 +56,26 @@ export interface ResolvedFile {
  */
 export type ResolvedResource = ResolvedFile;
 
+/**
+ * Options controlling how nested kustomark configs are composed.
+ */
+export interface ResolveOptions {
+  /** Group filtering applied to the patches of every nested layer */
+  groupOptions?: GroupOptions;
+  /** Collects warnings produced while applying nested layers */
+  warnings?: string[];
+  /** Lock file pinning remote resources to resolved refs and integrity hashes */
+  lockFile?: LockFile | null;
+  /** Collects lock entries for remote resources fetched without a pin */
+  lockEntries?: LockedResource[];
+  /** Network and cache settings passed to the remote fetchers */
+  fetchOptions?: FetchOptions;
+  /** Security allowlists of the enclosing layers; every one must allow a remote resource */
+  security?: SecurityConfig[];
+  /** Vars and snippets of the enclosing layer; a nested layer inherits and overrides them */
+  scope?: VariableScope;
+}
+
 /**
  * Check if a path is a directory.
  * @param path - Path to check
@@ -71,49 +125,248 @@ function simpleMatch(path: string, pattern: string): boolean {
 }
 
 /**
- * Apply patches from a kustomark config to resolved files.
- * This is a placeholder that will be implemented by the patch engine.
- * For now, it returns files unchanged.
- * @param files - Files to patch
- * @param _patches - Array of patches to apply
- * @returns Patched files
+ * Apply a nested kustomark config layer to its resolved files.
+ * Runs the layer's file operations, then its content patches, then its
+ * global validators - the same order the CLI uses for the top-level config.
+ * @param files - Files resolved from the nested config's resources
+ * @param config - The nested kustomark config
+ * @param configDir - Directory containing the nested config file
+ * @param options - Group filtering and warning collection
+ * @returns Patched files with paths relative to the nested config directory
  */
 async function applyPatchesToFiles(
   files: ResolvedFile[],
-  _patches: Patch[] | undefined
+  config: KustomarkConfig,
+  configDir: string,
+  options: ResolveOptions
 ): Promise<ResolvedFile[]> {
-  // TODO: Implement patch application using the patch engine
-  // For now, return files unchanged - the patch engine will handle this
-  return files;
+  const warnings = options.warnings ?? [];
+  const patches = withDefaultOnNoMatch(
+    config.patches ? resolveExtends(config.patches) : [],
+    config.onNoMatch
+  );
+
+  // File operations first (copy, rename, delete, move, create)
+  const fileOpsResult = applyFileOperations(patches, files, options.scope);
+  warnings.push(...fileOpsResult.warnings);
+  const processedFiles = applyFileOperationResults(files, fileOpsResult);
+  const patchContext: PatchContext = {
+    links: createLinkContext(patches, processedFiles, fileOpsResult.renamedFiles, options.groupOptions),
+    ...options.scope,
+  };
+
+  const absolutePaths = new Map(files.map((f) => [f.relativePath, f.absolutePath]));
+  const patchedFiles: ResolvedFile[] = [];
+
+  for (const file of processedFiles) {
+    const patchResult = applyPatches(
+      file.content,
+      patches,
+      file.relativePath,
+      options.groupOptions,
+      patchContext
+    );
+    warnings.push(...patchResult.warnings);
+
+    if (config.validators && config.validators.length > 0) {
+      for (const error of runGlobalValidators(patchResult.content, file.relativePath, config.validators)) {
+        warnings.push(formatValidationError(error));
+      }
+    }
+
+    patchedFiles.push({
+      relativePath: file.relativePath,
+      // Copied, renamed and moved files get a virtual path inside the layer
+      absolutePath: absolutePaths.get(file.relativePath) ?? join(configDir, file.relativePath),
+      content: patchResult.content,
+    });
+  }
+
+  if (config.validators && config.validators.length > 0) {
+    const layerFiles = patchedFiles.map((f) => ({ path: f.relativePath, content: f.content }));
+    for (const error of runLinkValidators(layerFiles, config.validators)) {
+      warnings.push(formatValidationError(error));
+    }
+  }
+
+  return patchedFiles;
+}
+
+/**
+ * Get the pattern or URL of a resource entry.
+ * @param resource - A resource string or structured resource entry
+ * @returns The resource pattern or URL
+ */
+export function getResourceUrl(resource: Resource): string {
+  return typeof resource === "string" ? resource : resource.url;
+}
+
+/**
+ * Fetch a remote resource, honouring the lock file.
+ * Locked resources are checked out at their resolved ref and must match the
+ * recorded integrity; unlocked ones are added to `options.lockEntries`.
+ * @param resource - Remote resource URL or structured entry as written in the config
+ * @param options - Lock file, lock entry collector and fetch settings
+ * @returns The successful fetch result
+ * @throws Error if the fetch fails or the integrity check does not match
+ */
+export async function fetchLockedResource(
+  resource: Resource,
+  options: ResolveOptions = {}
+): Promise<FetchResult> {
+  const url = getResourceUrl(resource);
+  const locked = options.lockFile ? findLockedResource(options.lockFile, url) : undefined;
+  const fetchResult = await fetchRemoteResource(url, {
+    ...options.fetchOptions,
+    pinnedRef: locked?.resolved,
+    auth: typeof resource === "string" ? undefined : resource.auth,
+    sha256: typeof resource === "string" ? undefined : resource.sha256,
+    security: options.security,
+  });
+
+  if (!fetchResult.success) {
+    throw new Error(`Failed to fetch remote resource ${redactUrl(url)}: ${fetchResult.error}`);
+  }
+
+  if (locked) {
+    if (!verifyIntegrity(fetchResult.files, locked)) {
+      throw new Error(
+        `Integrity check failed for ${redactUrl(url)}: expected ${locked.integrity}, got ${calculateFilesIntegrity(fetchResult.files)}`
+      );
+    }
+  } else if (options.lockEntries) {
+    // HTTP resources have no commit SHA, so the URL itself is recorded
+    options.lockEntries.push(
+      createLockedResource(url, fetchResult.resolvedRef ?? url, fetchResult.files)
+    );
+  }
+
+  return fetchResult;
+}
+
+/**
+ * A remote resource together with the security allowlists that apply to it.
+ */
+export interface CollectedRemoteResource {
+  resource: Resource;
+  /** Allowlists of the declaring config and every layer above it */
+  security: SecurityConfig[];
+}
+
+/**
+ * Collect the remote resources referenced by a config and the local
+ * kustomark configs it includes, without fetching or patching anything.
+ * @param configPath - Path to the kustomark config file
+ * @param security - Allowlists inherited from enclosing layers
+ * @returns Remote resources in resolution order
+ */
+export async function collectRemoteResources(
+  configPath: string,
+  security: SecurityConfig[] = []
+): Promise<CollectedRemoteResource[]> {
+  const absoluteConfigPath = resolve(configPath);
+  const configDir = dirname(absoluteConfigPath);
+  const config = await loadConfigFile(absoluteConfigPath);
+  const chain = config.security ? [...security, config.security] : security;
+  const remotes: CollectedRemoteResource[] = [];
+
+  for (const resource of config.resources) {
+    if (typeof resource !== "string") {
+      remotes.push({ resource, security: chain });
+      continue;
+    }
+
+    if (resource.startsWith("!")) {
+      continue;
+    }
+
+    if (isRemoteResource(resource)) {
+      remotes.push({ resource, security: chain });
+      continue;
+    }
+
+    const resourcePath = isAbsolute(resource) ? resource : resolve(configDir, resource);
+    const nestedConfigPath = join(resourcePath, "kustomark.yaml");
+    if ((await isDirectory(resourcePath)) && (await fileExists(nestedConfigPath))) {
+      remotes.push(...(await collectRemoteResources(nestedConfigPath, chain)));
+    }
+  }
+
+  return remotes;
+}
+
+/**
+ * Collect the content and snippet files read by a config and the local
+ * kustomark configs it includes, without patching anything.
+ * @param configPath - Path to the kustomark config file
+ * @returns Absolute paths of the files
+ */
+export async function collectPatchFiles(configPath: string): Promise<string[]> {
+  const absoluteConfigPath = resolve(configPath);
+  const configDir = dirname(absoluteConfigPath);
+  const config = await loadConfigFile(absoluteConfigPath);
+  const files = getPatchFiles(config, absoluteConfigPath);
+
+  for (const resource of config.resources) {
+    if (typeof resource !== "string" || resource.startsWith("!") || isRemoteResource(resource)) {
+      continue;
+    }
+
+    const resourcePath = isAbsolute(resource) ? resource : resolve(configDir, resource);
+    const nestedConfigPath = join(resourcePath, "kustomark.yaml");
+    if ((await isDirectory(resourcePath)) && (await fileExists(nestedConfigPath))) {
+      files.push(...(await collectPatchFiles(nestedConfigPath)));
+    }
+  }
+
+  return [...new Set(files)];
+}
+
+/**
+ * Check every remote resource of a config and its nested layers against the
+ * security allowlists, without fetching anything.
+ * @param configPath - Path to the kustomark config file
+ * @returns Violation messages, empty if every remote resource is allowed
+ */
+export async function findSecurityViolations(configPath: string): Promise<string[]> {
+  const violations: string[] = [];
+
+  for (const { resource, security } of await collectRemoteResources(configPath)) {
+    const violation = checkSecurityPolicy(parseRemoteUrl(getResourceUrl(resource)), security);
+    if (violation) {
+      violations.push(violation);
+    }
+  }
+
+  return violations;
 }
 
 /**
  * Resolve a single resource pattern to files.
  * @param configDir - Directory containing the config file
- * @param pattern - Resource pattern to resolve
+ * @param resource - Resource pattern or structured entry to resolve
  * @param negationPatterns - Patterns to exclude
+ * @param options - Options for composing nested configs
  * @returns Array of resolved files
  */
 async function resolveSingleResource(
   configDir: string,
-  pattern: string,
-  negationPatterns: string[]
+  resource: Resource,
+  negationPatterns: string[],
+  options: ResolveOptions
 ): Promise<ResolvedFile[]> {
   const resolvedFiles: ResolvedFile[] = [];
+  const pattern = getResourceUrl(resource);
 
-  // Check if this is a remote resource (git or http)
-  if (isRemoteResource(pattern)) {
-    const fetchResult = await fetchRemoteResource(pattern);
-
-    if (!fetchResult.success) {
-      throw new Error(`Failed to fetch remote resource ${pattern}: ${fetchResult.error}`);
-    }
+  // Check if this is a remote resource (git or http); structured entries always are
+  if (typeof resource !== "string" || isRemoteResource(pattern)) {
+    const fetchResult = await fetchLockedResource(resource, options);
 
     // Convert fetched files to resolved files
     for (const file of fetchResult.files) {
       resolvedFiles.push({
         relativePath: file.relativePath,
-        absolutePath: `remote://${pattern}/${file.relativePath}`,
+        absolutePath: `remote://${redactUrl(pattern)}/${file.relativePath}`,
         content: file.content,
       });
     }
@@ -124,33 +377,33 @@ async function resolveSingleResource(
   // Check if this is a kustomark config directory (ends with "/" or is a directory with kustomark.yaml)
   const isKustomarkDir = pattern.endsWith("/");
   const patternPath = isAbsolute(pattern) ? pattern : resolve(configDir, pattern);
-  const normalizedPath = isKustomarkDir ? patternPath.slice(0, -1) : patternPath;
 
   // Check if it's a directory with kustomark.yaml
-  if (isKustomarkDir || (await isDirectory(normalizedPath))) {
-    const kustomarkConfigPath = join(normalizedPath, "kustomark.yaml");
+  // (path.resolve already strips the trailing slash)
+  if (isKustomarkDir || (await isDirectory(patternPath))) {
+    const kustomarkConfigPath = join(patternPath, "kustomark.yaml");
 
     if (await fileExists(kustomarkConfigPath)) {
       // Recursively resolve the nested kustomark config
       const nestedConfig = await loadConfigFile(kustomarkConfigPath);
+      const nestedOptions: ResolveOptions = {
+        ...options,
+        // A nested layer's allowlist narrows, never widens, the enclosing ones
+        security: nestedConfig.security
+          ? [...(options.security ?? []), nestedConfig.security]
+          : options.security,
+        scope: await resolveVariableScope(nestedConfig, kustomarkConfigPath, options.scope),
+      };
       const nestedFiles = await resolveResourcesInternal(
         kustomarkConfigPath,
-        nestedConfig.resources
+        nestedConfig.resources,
+        nestedOptions
       );
 
-      // Apply patches from the nested config
-      const patchedFiles = await applyPatchesToFiles(nestedFiles, nestedConfig.patches);
-
-      // Re-map relative paths to be relative to the current config directory
-      for (const file of patchedFiles) {
-        resolvedFiles.push({
-          relativePath: relative(configDir, file.absolutePath),
-          absolutePath: file.absolutePath,
-          content: file.content,
-        });
-      }
-
-      return resolvedFiles;
+      // Apply the nested layer (file ops, patches, validators) before returning
+      // its files. Paths stay relative to the nested config so the overlay
+      // sees the same layout the base would have written.
+      return applyPatchesToFiles(nestedFiles, nestedConfig, patternPath, nestedOptions);
     }
   }
 
@@ -208,11 +461,13 @@ async function resolveSingleResource(
  *
  * @param configPath - Absolute or relative path to the kustomark config file
  * @param resources - Array of resource patterns to resolve
+ * @param options - Options for composing nested configs
  * @returns Array of resolved files with paths and content
  */
 async function resolveResourcesInternal(
   configPath: string,
-  resources: string[]
+  resources: Resource[],
+  options: ResolveOptions = {}
 ): Promise<ResolvedFile[]> {
   const absoluteConfigPath = isAbsolute(configPath)
     ? configPath
@@ -221,10 +476,10 @@ async function resolveResourcesInternal(
 
   // Separate negation patterns from inclusion patterns
   const negationPatterns: string[] = [];
-  const inclusionPatterns: string[] = [];
+  const inclusionPatterns: Resource[] = [];
 
   for (const resource of resources) {
-    if (resource.startsWith("!")) {
+    if (typeof resource === "string" && resource.startsWith("!")) {
       negationPatterns.push(resource);
     } else {
       inclusionPatterns.push(resource);
@@ -236,7 +491,7 @@ async function resolveResourcesInternal(
   const seenPaths = new Set<string>();
 
   for (const pattern of inclusionPatterns) {
-    const files = await resolveSingleResource(configDir, pattern, negationPatterns);
+    const files = await resolveSingleResource(configDir, pattern, negationPatterns, options);
 
     for (const file of files) {
       // Deduplicate by absolute path (last wins for conflicts per spec)
@@ -255,6 +510,27 @@ async function resolveResourcesInternal(
   return allFiles;
 }
 
+/**
+ * Seed the security allowlist chain and the variable scope from the
+ * top-level config, unless the caller already supplied them.
+ */
+async function withConfigDefaults(
+  configPath: string,
+  options: ResolveOptions
+): Promise<ResolveOptions> {
+  const absoluteConfigPath = resolve(configPath);
+  if ((options.security && options.scope) || !(await fileExists(absoluteConfigPath))) {
+    return options;
+  }
+
+  const config = await loadConfigFile(absoluteConfigPath);
+  return {
+    ...options,
+    security: options.security ?? (config.security ? [config.security] : []),
+    scope: options.scope ?? (await resolveVariableScope(config, absoluteConfigPath)),
+  };
+}
+
 /**
  * Resolve resources from a kustomark configuration file.
  *
@@ -263,9 +539,12 @@ async function resolveResourcesInternal(
  * - Negation patterns starting with "!" - excludes files from results
  * - File paths like "./file.md" - single file
  * - Directory paths ending with "/" - if contains kustomark.yaml, recursively resolve
+ *   and apply that config's file operations, patches and validators
+ * - Remote URLs, as strings or `{ url, auth }` entries for private HTTP resources
  *
  * @param configPath - Absolute or relative path to the kustomark config file
  * @param resources - Array of resource patterns to resolve
+ * @param options - Options for composing nested configs
  * @returns Array of resolved files with paths and content
  *
  * @example
@@ -273,7 +552,8 @@ async function resolveResourcesInternal(
  */
 export async function resolveResources(
   configPath: string,
-  resources: string[]
+  resources: Resource[],
+  options?: ResolveOptions
 ): Promise<ResolvedFile[]>;
 
 /**
@@ -281,19 +561,22 @@ export async function resolveResources(
  *
  * @param resources - Array of resource patterns to resolve
  * @param configDir - Directory containing the config file
+ * @param options - Options for composing nested configs
  * @returns Array of resolved files with paths and content
  */
 export async function resolveResources(
-  resources: string[],
-  configDir: string
+  resources: Resource[],
+  configDir: string,
+  options?: ResolveOptions
 ): Promise<ResolvedFile[]>;
 
 /**
  * Implementation of resolveResources that handles both signatures.
  */
 export async function resolveResources(
-  arg1: string | string[],
-  arg2: string | string[]
+  arg1: string | Resource[],
+  arg2: string | Resource[],
+  options: ResolveOptions = {}
 ): Promise<ResolvedFile[]> {
   // Detect which signature is being used
   if (Array.isArray(arg1) && typeof arg2 === "string") {
@@ -301,12 +584,14 @@ export async function resolveResources(
     const resources = arg1;
     const configDir = arg2;
     const configPath = join(configDir, "kustomark.yaml");
-    return resolveResourcesInternal(configPath, resources);
+    const resolveOptions = await withConfigDefaults(configPath, options);
+    return resolveResourcesInternal(configPath, resources, resolveOptions);
   } else if (typeof arg1 === "string" && Array.isArray(arg2)) {
     // Config-style: resolveResources(configPath, resources[])
     const configPath = arg1;
     const resources = arg2;
-    return resolveResourcesInternal(configPath, resources);
+    const resolveOptions = await withConfigDefaults(configPath, options);
+    return resolveResourcesInternal(configPath, resources, resolveOptions);
   } else {
     throw new Error("Invalid arguments: expected (configPath, resources[]) or (resources[], configDir)");
   }
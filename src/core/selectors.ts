@@ -0,0 +1,129 @@
+/**
+ * One step of a section selector path
+ */
+export interface SectionSelectorSegment {
+  /** Section slug (a repeated heading's slug matches every occurrence) */
+  slug?: string;
+  /** Exact header title */
+  title?: string;
+  /** Regular expression tested against the header title */
+  titlePattern?: RegExp;
+  /** Header level (1-6) */
+  level?: number;
+  /** 1-based occurrence among the sections matching this segment */
+  nth?: number;
+}
+
+/**
+ * Section selector syntax, used in error messages and the JSON schema.
+ */
+export const SECTION_SELECTOR_SYNTAX =
+  'A section slug, or a path of segments separated by "/" (e.g. installation/linux). ' +
+  'Each segment is an optional slug followed by filters: [title="Exact Title"], ' +
+  "[title=/regex/flags], [level=2] and a trailing :nth(2) to pick the nth match.";
+
+/**
+ * Parse a section selector such as `installation/linux`,
+ * `[title="Example"][level=3]:nth(2)` or `guide/[title=/^Step/i]`.
+ * @param selector - Selector string from a section patch
+ * @returns The parsed segments, outermost first
+ * @throws Error describing the first syntax problem
+ */
+export function parseSectionSelector(selector: string): SectionSelectorSegment[] {
+  const segments: SectionSelectorSegment[] = [];
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid section selector "${selector}": ${message}`);
+  };
+
+  // Read a delimited value, honouring backslash escapes
+  const readDelimited = (delimiter: string): string => {
+    let value = "";
+    while (pos < selector.length && selector[pos] !== delimiter) {
+      if (selector[pos] === "\\" && pos + 1 < selector.length) {
+        value += selector.slice(pos, pos + 2);
+        pos += 2;
+      } else {
+        value += selector[pos++];
+      }
+    }
+    if (selector[pos] !== delimiter) {
+      fail(`missing closing ${delimiter}`);
+    }
+    pos++;
+    return value;
+  };
+
+  for (;;) {
+    const segment: SectionSelectorSegment = {};
+
+    // github-slugger keeps letters, marks and digits of any script
+    const slugMatch = /^[\p{L}\p{M}\p{N}_-]+/u.exec(selector.slice(pos));
+    if (slugMatch) {
+      segment.slug = slugMatch[0];
+      pos += slugMatch[0].length;
+    }
+
+    while (selector[pos] === "[") {
+      pos++;
+      const attrMatch = /^(title|level)=/.exec(selector.slice(pos));
+      if (!attrMatch) {
+        return fail(`expected title= or level= at position ${pos}`);
+      }
+      pos += attrMatch[0].length;
+
+      if (attrMatch[1] === "level") {
+        const levelMatch = /^[1-6]/.exec(selector.slice(pos));
+        if (!levelMatch) {
+          return fail(`level must be between 1 and 6 at position ${pos}`);
+        }
+        segment.level = Number(levelMatch[0]);
+        pos++;
+      } else if (selector[pos] === '"') {
+        pos++;
+        segment.title = readDelimited('"').replace(/\\(.)/g, "$1");
+      } else if (selector[pos] === "/") {
+        pos++;
+        const source = readDelimited("/");
+        const flags = /^[a-z]*/.exec(selector.slice(pos))![0];
+        pos += flags.length;
+        try {
+          // Global and sticky flags would make repeated tests stateful
+          segment.titlePattern = new RegExp(source, flags.replace(/[gy]/g, ""));
+        } catch (err) {
+          return fail(err instanceof Error ? err.message : String(err));
+        }
+      } else {
+        return fail(`title must be "quoted" or a /regex/ at position ${pos}`);
+      }
+
+      if (selector[pos] !== "]") {
+        return fail(`missing closing ] at position ${pos}`);
+      }
+      pos++;
+    }
+
+    const nthMatch = /^:nth\((\d+)\)/.exec(selector.slice(pos));
+    if (nthMatch) {
+      segment.nth = Number(nthMatch[1]);
+      if (segment.nth < 1) {
+        return fail("nth is 1-based");
+      }
+      pos += nthMatch[0].length;
+    }
+
+    if (Object.keys(segment).length === 0) {
+      return fail(`empty segment at position ${pos}`);
+    }
+    segments.push(segment);
+
+    if (pos === selector.length) {
+      return segments;
+    }
+    if (selector[pos] !== "/") {
+      return fail(`unexpected "${selector[pos]}" at position ${pos}`);
+    }
+    pos++;
+  }
+}
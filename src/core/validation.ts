@@ -1,5 +1,7 @@
 import yaml from "yaml";
+import { posix } from "path";
 import type { PatchValidation, Validator } from "./config.js";
+import { findLinks, parseSections } from "./patches.js";
 
 /**
  * Result of a validation check
@@ -8,6 +10,8 @@ export interface ValidationError {
   file: string;
   validator: string;
   message: string;
+  /** 1-based line the error refers to, if any */
+  line?: number;
 }
 
 /**
@@ -146,6 +150,103 @@ export function runGlobalValidators(
   return errors;
 }
 
+/**
+ * Markdown files, whose links are checked and whose headings are anchors
+ */
+const MARKDOWN_FILE_REGEX = /\.(md|markdown)$/i;
+
+/**
+ * Find relative links and anchors that don't resolve within a file set.
+ * Anchors are matched against heading slugs as generated by parseSections.
+ * URLs, root-relative paths, targets outside the file set's root and
+ * non-markdown targets (images and other assets) are not checked.
+ */
+function findBrokenLinks(
+  files: Array<{ path: string; content: string }>
+): Array<{ file: string; line: number; message: string }> {
+  const contents = new Map(files.map((file) => [file.path, file.content]));
+  const anchors = new Map<string, Set<string>>();
+  const anchorsOf = (path: string): Set<string> => {
+    let ids = anchors.get(path);
+    if (!ids) {
+      ids = new Set(parseSections(contents.get(path)!).map((section) => section.id));
+      anchors.set(path, ids);
+    }
+    return ids;
+  };
+
+  const broken: Array<{ file: string; line: number; message: string }> = [];
+
+  for (const file of files) {
+    if (!MARKDOWN_FILE_REGEX.test(file.path)) {
+      continue;
+    }
+
+    for (const link of findLinks(file.content)) {
+      const { target } = link;
+      if (/^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(target) || target.startsWith("/")) {
+        continue;
+      }
+
+      const hashIndex = target.indexOf("#");
+      let fragment = hashIndex === -1 ? undefined : target.slice(hashIndex + 1);
+      let path = (hashIndex === -1 ? target : target.slice(0, hashIndex)).replace(/\?.*$/, "");
+      try {
+        path = decodeURI(path);
+        // Slugs keep non-ASCII letters, which links often percent-encode
+        fragment = fragment && decodeURIComponent(fragment);
+      } catch {
+        // Keep malformed escapes as written
+      }
+
+      const linked = path === "" ? file.path : posix.normalize(posix.join(posix.dirname(file.path), path));
+      const report = (message: string): void => {
+        broken.push({ file: file.path, line: link.line + 1, message: `Broken link '${target}': ${message}` });
+      };
+
+      if (!contents.has(linked)) {
+        if (MARKDOWN_FILE_REGEX.test(linked) && !linked.startsWith("../")) {
+          report(`${linked} not found`);
+        }
+        continue;
+      }
+
+      if (fragment && MARKDOWN_FILE_REGEX.test(linked) && !anchorsOf(linked).has(fragment)) {
+        report(`no heading with anchor '#${fragment}' in ${linked}`);
+      }
+    }
+  }
+
+  return broken;
+}
+
+/**
+ * Run the link validators (`linksResolve`) across a whole file set.
+ * Returns a list of validation errors with the line of each broken link.
+ */
+export function runLinkValidators(
+  files: Array<{ path: string; content: string }>,
+  validators: Validator[]
+): ValidationError[] {
+  const linkValidators = validators.filter((validator) => validator.linksResolve);
+  if (linkValidators.length === 0) {
+    return [];
+  }
+
+  const broken = findBrokenLinks(files);
+  return linkValidators.flatMap((validator) =>
+    broken.map((error) => ({ ...error, validator: validator.name }))
+  );
+}
+
+/**
+ * Format a validation error as a message, with its file and line.
+ */
+export function formatValidationError(error: ValidationError): string {
+  const location = error.line === undefined ? error.file : `${error.file}:${error.line}`;
+  return `Validator '${error.validator}' failed on ${location}: ${error.message}`;
+}
+
 /**
  * Validate all files against global validators.
  */
@@ -160,6 +261,8 @@ export function validateFiles(
     errors.push(...fileErrors);
   }
 
+  errors.push(...runLinkValidators(files, validators));
+
   return {
     valid: errors.length === 0,
     errors,
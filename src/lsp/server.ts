@@ -10,11 +10,23 @@ import {
   Hover,
   MarkupKind,
   Position,
+  DocumentSymbol,
+  SymbolKind,
 } from "vscode-languageserver/node.js";
 import { TextDocument } from "vscode-languageserver-textdocument";
+import { fileURLToPath } from "url";
 import yaml from "yaml";
-import { kustomarkConfigSchema } from "../core/config.js";
+import {
+  kustomarkConfigSchema,
+  loadPatchFiles,
+  resolveVariableScope,
+  type KustomarkConfig,
+} from "../core/config.js";
+import { applyFileOperations, applyFileOperationResults } from "../core/file-operations.js";
 import { lintConfig } from "../core/lint.js";
+import { applyPatches, createLinkContext, parseSections, resolveExtends } from "../core/patches.js";
+import { resolveResources } from "../core/resources.js";
+import { formatValidationError, runLinkValidators, type ValidationError } from "../core/validation.js";
 
 // Create connection for the server
 const connection = createConnection(ProposedFeatures.all);
@@ -37,12 +49,12 @@ const patchOpDocs: Record<string, { description: string; example: string }> = {
   replacement: "v2.0.0"`,
   },
   "remove-section": {
-    description: "Remove a markdown section by its header slug",
+    description: "Remove a markdown section by its header slug or a section selector",
     example: `- op: remove-section
   id: "section-to-remove"`,
   },
   "replace-section": {
-    description: "Replace the content of a markdown section",
+    description: "Replace the content of a markdown section (inline, or `contentFile` relative to the config)",
     example: `- op: replace-section
   id: "my-section"
   content: "New section content"`,
@@ -77,11 +89,35 @@ const patchOpDocs: Record<string, { description: string; example: string }> = {
   to: "newKey"`,
   },
   "merge-frontmatter": {
-    description: "Merge values into frontmatter",
+    description: "Merge values into frontmatter. `strategy` decides how arrays on both sides combine: `replace` (default), `concat` or `union`",
     example: `- op: merge-frontmatter
+  strategy: union
   values:
     key1: value1
-    key2: value2`,
+    tags: [docs]`,
+  },
+  "append-to-frontmatter": {
+    description: "Append values to a frontmatter array (dot-notation key) unless already present, creating it if missing",
+    example: `- op: append-to-frontmatter
+  key: "tags"
+  value: "internal"`,
+  },
+  "remove-from-frontmatter": {
+    description: "Remove values from a frontmatter array (dot-notation key)",
+    example: `- op: remove-from-frontmatter
+  key: "tags"
+  value: ["draft", "wip"]`,
+  },
+  "dedupe-frontmatter": {
+    description: "Remove repeated values from a frontmatter array, keeping the first",
+    example: `- op: dedupe-frontmatter
+  key: "meta.keywords"`,
+  },
+  "sort-frontmatter": {
+    description: "Sort a frontmatter array (`order: asc` or `desc`)",
+    example: `- op: sort-frontmatter
+  key: "tags"
+  order: asc`,
   },
   "insert-after-line": {
     description: "Insert content after a line matching a pattern",
@@ -132,6 +168,122 @@ const patchOpDocs: Record<string, { description: string; example: string }> = {
   id: "my-section"
   level: 2`,
   },
+  "insert-section": {
+    description:
+      "Insert a new section before/after a section or as the first/last child of a parent (`firstChildOf`/`lastChildOf`)",
+    example: `- op: insert-section
+  level: 2
+  title: "Team Conventions {#conventions}"
+  content: "Follow the style guide."
+  after: "installation"`,
+  },
+  "table-add-row": {
+    description:
+      "Add a row to a table (located by `section` and/or `header` columns); cells as a list or by column name",
+    example: `- op: table-add-row
+  section: "permissions"
+  row:
+    Tool: Bash
+    Allowed: "yes"`,
+  },
+  "table-remove-rows": {
+    description: "Remove table rows whose `column` cell equals `match` or matches `pattern`",
+    example: `- op: table-remove-rows
+  header: ["Tool", "Allowed"]
+  column: Tool
+  match: WebFetch`,
+  },
+  "table-set-cell": {
+    description: "Set a cell in the row whose `keyColumn` (default: first column) equals `key`",
+    example: `- op: table-set-cell
+  section: "permissions"
+  key: Bash
+  column: Allowed
+  value: "no"`,
+  },
+  "table-add-column": {
+    description: "Add a column to a table, optionally `after` another column with an `align`",
+    example: `- op: table-add-column
+  section: "options"
+  column: Default
+  default: "-"
+  after: Name`,
+  },
+  "table-remove-column": {
+    description: "Remove a column from a table",
+    example: `- op: table-remove-column
+  section: "options"
+  column: Deprecated`,
+  },
+  "table-sort": {
+    description: "Sort table rows by a column (`order: asc|desc`, `numeric`)",
+    example: `- op: table-sort
+  section: "options"
+  column: Name`,
+  },
+  "list-add-item": {
+    description:
+      "Add a list item at the `position` (start/end), an `index`, or `after`/`before` a matching item; ordered lists are renumbered",
+    example: `- op: list-add-item
+  section: "steps"
+  item: "Run the linter"
+  after: "Install dependencies"`,
+  },
+  "list-remove-items": {
+    description: "Remove list items (and their nested items) whose text contains `match` or matches `pattern`",
+    example: `- op: list-remove-items
+  section: "steps"
+  match: "deprecated"`,
+  },
+  "list-replace-item": {
+    description: "Replace the text of matching list items, keeping markers and nested items",
+    example: `- op: list-replace-item
+  section: "steps"
+  match: "npm install"
+  item: "bun install"`,
+  },
+  "replace-code-block": {
+    description:
+      "Replace the body of fenced code blocks selected by `language`, `section`, `contains` and `index`",
+    example: `- op: replace-code-block
+  section: "install"
+  language: bash
+  content: "bun install"`,
+  },
+  "replace-in-code-block": {
+    description: "Replace text (`old`/`new`) or a regex (`pattern`/`replacement`) inside selected code blocks only",
+    example: `- op: replace-in-code-block
+  language: bash
+  old: "npm"
+  new: "bun"`,
+  },
+  "change-code-block-language": {
+    description: "Change the language of selected code blocks, keeping other info string attributes",
+    example: `- op: change-code-block-language
+  language: js
+  new: ts`,
+  },
+  "remove-code-block": {
+    description: "Remove selected fenced code blocks",
+    example: `- op: remove-code-block
+  section: "legacy"
+  language: bat`,
+  },
+  "generate-toc": {
+    description: "Insert or refresh a table of contents between `<!-- toc -->` and `<!-- /toc -->` markers (or `start`/`end`) or under a `section`, with `minLevel`/`maxLevel` and `excludeSections`",
+    example: `- op: generate-toc
+  section: contents
+  maxLevel: 3
+  excludeSections: [changelog]`,
+  },
+  "rewrite-links": {
+    description: "Rewrite inline, reference-style and autolink targets: map URL prefixes and hosts, follow file moves and keep anchors in sync with renamed headers",
+    example: `- op: rewrite-links
+  prefixes:
+    "https://old.example.com/docs/": "https://docs.example.com/"
+  hosts:
+    "github.com": "git.example.com"`,
+  },
   "copy-file": {
     description: "Copy a file to a new location",
     example: `- op: copy-file
@@ -155,6 +307,13 @@ const patchOpDocs: Record<string, { description: string; example: string }> = {
   from: "old/path.md"
   to: "new/path.md"`,
   },
+  "create-file": {
+    description: "Create a new output file from inline content or a content file, before content patches run. `onConflict` (error, overwrite, skip) handles an existing file",
+    example: `- op: create-file
+  dest: "README.md"
+  contentFile: templates/readme.md
+  onConflict: skip`,
+  },
 };
 
 connection.onInitialize((_params: InitializeParams) => {
@@ -162,6 +321,7 @@ connection.onInitialize((_params: InitializeParams) => {
     capabilities: {
       textDocumentSync: TextDocumentSyncKind.Incremental,
       hoverProvider: true,
+      documentSymbolProvider: true,
     },
   };
   return result;
@@ -246,6 +406,26 @@ async function validateTextDocument(textDocument: TextDocument): Promise<void> {
         // Linting might fail
         // That's OK, just skip lint diagnostics
       }
+
+      // Check links in the built output if a validator asks for it
+      if (uri.startsWith("file:") && result.data.validators?.some((v) => v.linksResolve)) {
+        try {
+          const position = findPositionForPath(text, ["linksResolve"]);
+          for (const error of await findBrokenLinks(fileURLToPath(uri), result.data)) {
+            diagnostics.push({
+              severity: DiagnosticSeverity.Warning,
+              range: {
+                start: position,
+                end: { line: position.line, character: 1000 },
+              },
+              message: formatValidationError(error),
+              source: "kustomark",
+            });
+          }
+        } catch {
+          // Resources might not resolve while the config is being edited
+        }
+      }
     }
   } catch (e) {
     // YAML parse error
@@ -264,6 +444,31 @@ async function validateTextDocument(textDocument: TextDocument): Promise<void> {
   connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
 }
 
+/**
+ * Build a config's output in memory (file operations, then patches) and
+ * run its link validators on it.
+ */
+async function findBrokenLinks(configPath: string, parsed: KustomarkConfig): Promise<ValidationError[]> {
+  // The document was only parsed; read its content files like loadConfigFile does
+  const config = await loadPatchFiles(parsed, configPath);
+  const scope = await resolveVariableScope(config, configPath);
+  const resources = await resolveResources(configPath, config.resources, { scope });
+  const patches = config.patches ? resolveExtends(config.patches) : [];
+  const fileOpsResult = applyFileOperations(patches, resources, scope);
+  const processedResources = applyFileOperationResults(resources, fileOpsResult);
+  const context = {
+    links: createLinkContext(patches, processedResources, fileOpsResult.renamedFiles),
+    ...scope,
+  };
+
+  const outputFiles = processedResources.map((resource) => ({
+    path: resource.relativePath,
+    content: applyPatches(resource.content, patches, resource.relativePath, undefined, context).content,
+  }));
+
+  return runLinkValidators(outputFiles, config.validators ?? []);
+}
+
 /**
  * Find position in YAML for a path
  */
@@ -357,17 +562,41 @@ connection.onHover((params): Hover | null => {
   }
 
   // Check if hovering over a patch key
-  const keyMatch = line.match(/^\s*(include|exclude|group|id|extends|onNoMatch):/);
+  const keyMatch = line.match(/^\s*(include|exclude|group|id|extends|onNoMatch|within):/);
   if (keyMatch) {
     const key = keyMatch[1];
     const keyDocs: Record<string, string> = {
       include: "Glob patterns to match files for this patch. Default: `**/*`",
       exclude: "Glob patterns to exclude from this patch",
       group: "Assign this patch to a named group for selective application",
-      id: "Unique identifier for this patch (for inheritance with `extends`)",
+      id:
+        "Unique identifier for this patch (for inheritance with `extends`). " +
+        "For section ops, a section selector: a slug, a path (`installation/linux`), " +
+        '`[title="Exact"]`, `[title=/regex/]`, `[level=2]` and `:nth(2)`',
       extends: "Inherit from another patch by its `id`",
       onNoMatch:
         "Behavior when pattern doesn't match: `skip` (default), `warn`, or `error`",
+      within:
+        "Restrict a replace or line operation to `frontmatter`, `body`, or " +
+        "`{ section: <selector>, includeChildren: false }` (the section's content below its header)",
+      where:
+        "Apply a content patch only to files whose frontmatter matches, by dot-notation key: " +
+        "a value (equals) or `{ equals, in, exists, not, arrayContains }`",
+      vars:
+        "Config variables for `${vars.<name>}` in patch content, next to `${frontmatter.<key>}`, " +
+        "`${file.path}`, `${file.basename}`, `${file.dir}` and `${file.name}`. Write `$${` for a literal `${`. " +
+        "Nested configs inherit and can override them",
+      contentFile:
+        "Load `content` from a file instead, relative to the config that declares the patch. " +
+        "Interpolated like inline content; editing the file triggers a rebuild",
+      newFile: "Load a replace patch's `new` text from a file, relative to the config",
+      replacementFile: "Load a replace-line patch's `replacement` from a file, relative to the config",
+      snippets:
+        "Reusable patch content for `${snippets.<name>}`: inline text, or `{ file: <path> }` relative " +
+        "to the config. Nested configs inherit and can override them",
+      linksResolve:
+        "Validator check: relative links and `#anchors` must resolve to files and headings " +
+        "in the built output (reported with file and line)",
     };
 
     if (keyDocs[key]) {
@@ -381,7 +610,7 @@ connection.onHover((params): Hover | null => {
   }
 
   // Check for top-level keys
-  const topLevelMatch = line.match(/^(apiVersion|kind|output|resources|patches|watch):/);
+  const topLevelMatch = line.match(/^(apiVersion|kind|output|resources|patches|watch|security):/);
   if (topLevelMatch) {
     const key = topLevelMatch[1];
     const topLevelDocs: Record<string, string> = {
@@ -389,9 +618,11 @@ connection.onHover((params): Hover | null => {
       kind: "Config kind. Use `Kustomization` for standard config",
       output: "Output directory for built files (relative to config location)",
       resources:
-        "List of resources to include. Can be file globs, directories, or other kustomark configs",
+        "List of resources to include. Can be file globs, directories, other kustomark configs, or remote URLs (`{ url, auth }` for private HTTP resources)",
       patches: "List of patch operations to apply to resources",
       watch: "Watch mode configuration with hooks: `onStart`, `onBuild`, `onError`",
+      security:
+        "Allowlists for remote resources: `allowedHosts` and `allowedProtocols`. Nested configs can only narrow them",
     };
 
     if (topLevelDocs[key]) {
@@ -407,6 +638,51 @@ connection.onHover((params): Hover | null => {
   return null;
 });
 
+/**
+ * Provide a section outline for markdown documents, using the same section
+ * model as the patch operations (headers in code blocks are not sections)
+ */
+connection.onDocumentSymbol((params): DocumentSymbol[] => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document || !params.textDocument.uri.endsWith(".md")) {
+    return [];
+  }
+
+  const lines = document.getText().split("\n");
+  const roots: DocumentSymbol[] = [];
+  const stack: Array<{ level: number; symbol: DocumentSymbol }> = [];
+
+  for (const section of parseSections(document.getText())) {
+    const symbol: DocumentSymbol = {
+      name: section.title,
+      detail: `#${section.id}`,
+      kind: SymbolKind.String,
+      range: {
+        start: { line: section.startLine, character: 0 },
+        end: { line: section.endLine, character: lines[section.endLine]?.length ?? 0 },
+      },
+      selectionRange: {
+        start: { line: section.headerLine, character: 0 },
+        end: { line: section.headerLine, character: lines[section.headerLine].length },
+      },
+      children: [],
+    };
+
+    // Nest under the closest preceding section with a lower level
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) {
+      stack.pop();
+    }
+    if (stack.length > 0) {
+      stack[stack.length - 1].symbol.children?.push(symbol);
+    } else {
+      roots.push(symbol);
+    }
+    stack.push({ level: section.level, symbol });
+  }
+
+  return roots;
+});
+
 // Make the text document manager listen on the connection
 documents.listen(connection);
 
@@ -1,9 +1,16 @@
 import { readFile } from "fs/promises";
 import { dirname, resolve, join } from "path";
 import { existsSync } from "fs";
-import { loadConfigFile } from "../core/config.js";
+import { loadConfigFile, resolveVariableScope } from "../core/config.js";
 import { resolveResources } from "../core/resources.js";
-import { applyPatches, resolveExtends } from "../core/patches.js";
+import {
+  applyPatches,
+  createLinkContext,
+  resolveExtends,
+  withDefaultOnNoMatch,
+  type PatchContext,
+} from "../core/patches.js";
+import { applyFileOperations, applyFileOperationResults } from "../core/file-operations.js";
 import { lintConfig } from "../core/lint.js";
 import * as Diff from "diff";
 
@@ -468,6 +475,36 @@ function generateHtml(configPath: string): string {
 </html>`;
 }
 
+/**
+ * Produce a config's output files the way `kustomark build` does: file
+ * operations first, then content patches with vars, snippets and links
+ */
+export async function buildOutputFiles(
+  configPath: string
+): Promise<{ outputDir: string; files: Array<{ relativePath: string; content: string; applied: number }> }> {
+  const parsed = await loadConfigFile(configPath);
+  const scope = await resolveVariableScope(parsed, configPath);
+  const resources = await resolveResources(configPath, parsed.resources, { scope });
+  const patches = withDefaultOnNoMatch(
+    parsed.patches ? resolveExtends(parsed.patches) : [],
+    parsed.onNoMatch
+  );
+
+  const fileOpsResult = applyFileOperations(patches, resources, scope);
+  const processedResources = applyFileOperationResults(resources, fileOpsResult);
+  const patchContext: PatchContext = {
+    links: createLinkContext(patches, processedResources, fileOpsResult.renamedFiles),
+    ...scope,
+  };
+
+  const files = processedResources.map((resource) => {
+    const patchResult = applyPatches(resource.content, patches, resource.relativePath, {}, patchContext);
+    return { relativePath: resource.relativePath, content: patchResult.content, applied: patchResult.applied };
+  });
+
+  return { outputDir: resolve(dirname(configPath), parsed.output), files };
+}
+
 /**
  * Start the web UI server
  */
@@ -479,8 +516,6 @@ export async function startWebServer(config: WebServerConfig): Promise<void> {
     throw new Error(`Config file not found: ${resolvedConfigPath}`);
   }
 
-  const configDir = dirname(resolvedConfigPath);
-
   console.log(`Starting Kustomark Web UI...`);
   console.log(`Config: ${resolvedConfigPath}`);
   console.log(`Server: http://localhost:${port}`);
@@ -582,38 +617,34 @@ export async function startWebServer(config: WebServerConfig): Promise<void> {
         }
 
         if (path === "/api/diff") {
-          const parsed = await loadConfigFile(resolvedConfigPath);
-          const resources = await resolveResources(resolvedConfigPath, parsed.resources);
-          const patches = parsed.patches ? resolveExtends(parsed.patches) : [];
-          const outputDir = resolve(configDir, parsed.output);
+          const { outputDir, files: outputFiles } = await buildOutputFiles(resolvedConfigPath);
 
           const files: DiffResult["files"] = [];
           let hasChanges = false;
 
-          for (const resource of resources) {
-            const patchResult = applyPatches(resource.content, patches, resource.relativePath, {});
-            const outputPath = join(outputDir, resource.relativePath);
+          for (const file of outputFiles) {
+            const outputPath = join(outputDir, file.relativePath);
 
             let existingContent = "";
             let status: "added" | "modified" | "unchanged" = "added";
 
             if (existsSync(outputPath)) {
               existingContent = await readFile(outputPath, "utf-8");
-              status = existingContent === patchResult.content ? "unchanged" : "modified";
+              status = existingContent === file.content ? "unchanged" : "modified";
             }
 
             if (status !== "unchanged") {
               hasChanges = true;
               const diff = Diff.createPatch(
-                resource.relativePath,
+                file.relativePath,
                 existingContent,
-                patchResult.content,
+                file.content,
                 "existing",
                 "new"
               );
-              files.push({ path: resource.relativePath, status, diff });
+              files.push({ path: file.relativePath, status, diff });
             } else {
-              files.push({ path: resource.relativePath, status });
+              files.push({ path: file.relativePath, status });
             }
           }
 
@@ -625,21 +656,15 @@ export async function startWebServer(config: WebServerConfig): Promise<void> {
         }
 
         if (path === "/api/build" && req.method === "POST") {
-          const parsed = await loadConfigFile(resolvedConfigPath);
-          const resources = await resolveResources(resolvedConfigPath, parsed.resources);
-          const patches = parsed.patches ? resolveExtends(parsed.patches) : [];
-          const outputDir = resolve(configDir, parsed.output);
+          const { outputDir, files } = await buildOutputFiles(resolvedConfigPath);
 
           let filesWritten = 0;
           let patchesApplied = 0;
 
-          for (const resource of resources) {
-            const patchResult = applyPatches(resource.content, patches, resource.relativePath, {});
-            const outputPath = join(outputDir, resource.relativePath);
-
-            await Bun.write(outputPath, patchResult.content);
+          for (const file of files) {
+            await Bun.write(join(outputDir, file.relativePath), file.content);
             filesWritten++;
-            patchesApplied += patchResult.applied;
+            patchesApplied += file.applied;
           }
 
           return Response.json(
@@ -73,6 +73,19 @@ describe("Build Cache", () => {
       expect(cached).toBe("output content");
     });
 
+    test("stores occurrence counts with an entry", async () => {
+      const cache = new BuildCache(outputDir);
+      await cache.init();
+
+      const withCounts = cache.generateCacheKey("source", "patches", "a.md");
+      const withoutCounts = cache.generateCacheKey("source", "patches", "b.md");
+      await cache.set(withCounts, "output", "sh", "ph", [{ patchIndex: 0, op: "replace", matched: 2, applied: 1 }]);
+      await cache.set(withoutCounts, "output", "sh", "ph");
+
+      expect(await cache.getOccurrences(withCounts)).toEqual([{ patchIndex: 0, op: "replace", matched: 2, applied: 1 }]);
+      expect(await cache.getOccurrences(withoutCounts)).toBeNull();
+    });
+
     test("returns null for cache miss", async () => {
       const cache = new BuildCache(outputDir);
       await cache.init();
@@ -161,6 +174,20 @@ describe("Build Cache", () => {
       expect(await cache.has(key)).toBe(false);
     });
 
+    test("lists cache entries with their size", async () => {
+      const cache = new BuildCache(outputDir);
+      expect(await cache.list()).toEqual([]);
+
+      const key = cache.generateCacheKey("s", "p", "f.md");
+      await cache.set(key, "content", "sh", "ph");
+
+      const entries = await cache.list();
+      expect(entries.length).toBe(1);
+      expect(entries[0].key).toBe(key);
+      expect(entries[0].size).toBe(7);
+      expect(entries[0].path).toContain(CACHE_DIR_NAME);
+    });
+
     test("uses custom cache directory", async () => {
       const customCacheDir = join(tempDir, "custom-cache");
       const cache = new BuildCache(outputDir, customCacheDir);
@@ -1,5 +1,8 @@
 import { describe, test, expect } from "bun:test";
-import { parseConfig } from "../src/core/config.js";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { loadConfigFile, parseConfig, resolveVariableScope } from "../src/core/config.js";
 
 describe("Config Parsing", () => {
   test("parses minimal valid config", () => {
@@ -37,6 +40,21 @@ patches:
     expect(config.patches![0].op).toBe("replace");
   });
 
+  test("rejects a replace patch with an empty old string", () => {
+    const yaml = `
+apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+  - op: replace
+    old: ""
+    new: bar
+`;
+    expect(() => parseConfig(yaml)).toThrow();
+  });
+
   test("rejects config with wrong apiVersion", () => {
     const yaml = `
 apiVersion: kustomark/v2
@@ -86,6 +104,72 @@ patches:
   });
 });
 
+describe("Resource Entries Config", () => {
+  test("parses structured resource entries with auth", () => {
+    const yaml = `
+apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+  - url: https://private.example.com/skills.tar.gz
+    auth:
+      type: bearer
+      tokenEnv: PRIVATE_REPO_TOKEN
+  - url: https://private.example.com/docs.zip
+    auth:
+      type: basic
+      usernameEnv: DOCS_USER
+      passwordEnv: DOCS_PASSWORD
+  - url: https://private.example.com/api.md
+    auth:
+      type: header
+      header: X-Api-Key
+      valueEnv: API_KEY
+`;
+    const config = parseConfig(yaml);
+
+    expect(config.resources).toHaveLength(4);
+    expect(config.resources[0]).toBe("*.md");
+    expect(config.resources[1]).toEqual({
+      url: "https://private.example.com/skills.tar.gz",
+      auth: { type: "bearer", tokenEnv: "PRIVATE_REPO_TOKEN" },
+    });
+  });
+
+  test("validates sha256 digests on resource entries", () => {
+    const config = (sha256: string) => `
+apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - url: https://example.com/v1.0.0.tar.gz
+    sha256: ${sha256}
+`;
+    const digest = "a".repeat(64);
+
+    expect(parseConfig(config(digest)).resources[0]).toEqual({
+      url: "https://example.com/v1.0.0.tar.gz",
+      sha256: digest,
+    });
+    expect(() => parseConfig(config("abc123"))).toThrow("64-character hex digest");
+  });
+
+  test("rejects auth with an unknown type", () => {
+    const yaml = `
+apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - url: https://private.example.com/skills.tar.gz
+    auth:
+      type: oauth
+      tokenEnv: TOKEN
+`;
+    expect(() => parseConfig(yaml)).toThrow();
+  });
+});
+
 describe("Watch Hooks Config", () => {
   test("parses config with all watch hooks", () => {
     const yaml = `
@@ -283,3 +367,296 @@ patches:
     expect(config.patches![2].extends).toBe("parent");
   });
 });
+
+describe("Section Selectors Config", () => {
+  test("accepts section selectors in section ops", () => {
+    const config = parseConfig(`apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+  - op: remove-section
+    id: installation/linux
+  - op: remove-section
+    id: café-menu
+  - op: move-section
+    id: '[title="FAQ"][level=2]'
+    after: "[title=/^usage/i]:nth(2)"
+`);
+
+    expect(config.patches).toHaveLength(3);
+  });
+
+  test("rejects malformed section selectors", () => {
+    const yaml = (id: string) => `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+  - op: remove-section
+    id: '${id}'
+`;
+
+    expect(() => parseConfig(yaml("install//linux"))).toThrow(/Invalid section selector/);
+    expect(() => parseConfig(yaml("[level=7]"))).toThrow(/level must be between 1 and 6/);
+    expect(() => parseConfig(yaml("[title=/(/]"))).toThrow(/Invalid section selector/);
+    expect(() => parseConfig(yaml("usage:nth(0)"))).toThrow(/nth is 1-based/);
+  });
+});
+
+describe("Insert Section Config", () => {
+  const yaml = (placement: string) => `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+  - op: insert-section
+    level: 2
+    title: FAQ
+    onNoMatch: skip
+${placement}`;
+
+  test("requires exactly one placement", () => {
+    expect(parseConfig(yaml("    after: usage\n")).patches).toHaveLength(1);
+    expect(() => parseConfig(yaml(""))).toThrow(/exactly one of after, before, firstChildOf or lastChildOf/);
+    expect(() => parseConfig(yaml("    after: usage\n    lastChildOf: guide\n"))).toThrow(/exactly one/);
+  });
+});
+
+describe("Index Config", () => {
+  test("counts every index from 1", () => {
+    const yaml = (op: string) => `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+  - ${op}
+    index: 0
+`;
+
+    expect(() => parseConfig(yaml("op: list-add-item\n    item: x"))).toThrow();
+    expect(() => parseConfig(yaml("op: replace-code-block\n    content: x"))).toThrow();
+    expect(() => parseConfig(yaml("extends: base"))).toThrow();
+  });
+});
+
+describe("Generate TOC Config", () => {
+  test("rejects a level range that ends before it starts", () => {
+    const yaml = (minLevel: number, maxLevel: number) => `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+  - op: generate-toc
+    minLevel: ${minLevel}
+    maxLevel: ${maxLevel}
+`;
+
+    expect(parseConfig(yaml(3, 3)).patches).toHaveLength(1);
+    expect(() => parseConfig(yaml(4, 2))).toThrow("minLevel (4) must not be greater than maxLevel (2)");
+  });
+});
+
+describe("Within Config", () => {
+  test("rejects within on ops that ignore it", () => {
+    const yaml = `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+  - op: replace
+    old: a
+    new: b
+    within: body
+  - op: remove-section
+    id: old
+    within: body
+`;
+
+    expect(() => parseConfig(yaml)).toThrow(/'within' only applies to replace, .*not remove-section/);
+  });
+});
+
+describe("Where Config", () => {
+  const yaml = (where: string) => `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+  - op: replace
+    old: a
+    new: b
+    where:
+${where}
+`;
+
+  test("accepts values and predicate objects", () => {
+    const config = parseConfig(
+      yaml(`      category: git
+      draft: { not: true }
+      meta.level: { in: [beginner, intermediate] }
+      tags: { arrayContains: cli, exists: true }`)
+    );
+
+    expect(config.patches![0].where).toEqual({
+      category: "git",
+      draft: { not: true },
+      "meta.level": { in: ["beginner", "intermediate"] },
+      tags: { arrayContains: "cli", exists: true },
+    });
+  });
+
+  test("rejects unknown and empty predicates", () => {
+    expect(() => parseConfig(yaml("      category: { matches: git }"))).toThrow();
+    expect(() => parseConfig(yaml("      category: {}"))).toThrow(/at least one of/);
+  });
+
+  test("rejects where on file operations", () => {
+    expect(() =>
+      parseConfig(`apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+  - op: delete-file
+    match: "*.md"
+    where:
+      draft: true
+`)
+    ).toThrow(/'where' only applies to content patches, not delete-file/);
+  });
+});
+
+describe("Interpolation Config", () => {
+  const yaml = (content: string, vars = "") => `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+${vars}patches:
+  - op: append-to-section
+    id: footer
+    content: '${content}'
+`;
+
+  test("accepts known variables", async () => {
+    const config = parseConfig(
+      yaml("${frontmatter.name} ${file.basename} ${vars.product} $${vars.other} ${HOME}", "vars:\n  product: Acme\n")
+    );
+
+    expect(config.vars).toEqual({ product: "Acme" });
+    expect((await resolveVariableScope(config, "kustomark.yaml")).vars).toEqual({ product: "Acme" });
+  });
+
+  test("rejects unknown file properties", () => {
+    expect(() => parseConfig(yaml("${file.extension}"))).toThrow(/Unknown variable/);
+  });
+
+  test("rejects unknown vars and snippets when resolving the scope", async () => {
+    const config = parseConfig(yaml("${vars.product} ${snippets.policy}"));
+
+    await expect(resolveVariableScope(config, "kustomark.yaml")).rejects.toThrow(
+      'Unknown variable "${vars.product}", "${snippets.policy}" in kustomark.yaml'
+    );
+  });
+
+  test("checks the variables in snippet bodies", async () => {
+    const unknownVar = parseConfig(yaml("${snippets.policy}", "snippets:\n  policy: By ${vars.team}\n"));
+    const nested = parseConfig(
+      yaml("${snippets.policy}", "vars:\n  team: docs\nsnippets:\n  policy: ${snippets.footer}\n  footer: ${vars.team}\n")
+    );
+
+    await expect(resolveVariableScope(unknownVar, "kustomark.yaml")).rejects.toThrow(
+      `Unknown variable "\${vars.team}" in snippet 'policy' (in kustomark.yaml)`
+    );
+    await expect(resolveVariableScope(nested, "kustomark.yaml")).rejects.toThrow(
+      `Snippet 'policy' includes "\${snippets.footer}": snippets can't include other snippets (in kustomark.yaml)`
+    );
+  });
+
+  test("inherits the parent's vars and snippets and overrides them", async () => {
+    const config = parseConfig(
+      yaml("${snippets.policy} ${vars.team}", "vars:\n  team: docs\nsnippets:\n  footer: Local\n")
+    );
+
+    const scope = await resolveVariableScope(config, "/repo/team/kustomark.yaml", {
+      vars: { team: "platform", org: "Acme" },
+      snippets: { policy: { content: "Policy", configPath: "/repo/kustomark.yaml" } },
+    });
+
+    expect(scope.vars).toEqual({ team: "docs", org: "Acme" });
+    expect(scope.snippets.policy.configPath).toBe("/repo/kustomark.yaml");
+    expect(scope.snippets.footer).toEqual({ content: "Local", configPath: "/repo/team/kustomark.yaml" });
+  });
+});
+
+describe("Content Files", () => {
+  const yaml = (patch: string) => `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+${patch}`;
+
+  test("loads content, new and replacement from files relative to the config", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "kustomark-config-test-"));
+    try {
+      await mkdir(join(dir, "bodies"));
+      await writeFile(join(dir, "bodies", "policy.md"), "Team policy\n");
+      await writeFile(join(dir, "bodies", "new.txt"), "after");
+      await writeFile(
+        join(dir, "kustomark.yaml"),
+        yaml(`  - op: replace-section
+    id: policy
+    contentFile: bodies/policy.md
+  - op: replace
+    old: before
+    newFile: bodies/new.txt
+  - op: replace-line
+    match: old line
+    replacementFile: bodies/new.txt
+`)
+      );
+
+      const config = await loadConfigFile(join(dir, "kustomark.yaml"));
+
+      expect(config.patches?.[0]).toMatchObject({ content: "Team policy\n", contentFile: "bodies/policy.md" });
+      expect(config.patches?.[1]).toMatchObject({ new: "after" });
+      expect(config.patches?.[2]).toMatchObject({ replacement: "after" });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("requires exactly one of the inline field and its file", () => {
+    expect(() =>
+      parseConfig(yaml("  - op: append-to-section\n    id: a\n    content: x\n    contentFile: x.md\n"))
+    ).toThrow(/Set either content or contentFile, not both/);
+    expect(() => parseConfig(yaml("  - op: replace\n    old: a\n"))).toThrow(/Required: set new or newFile/);
+  });
+
+  test("reports a missing content file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "kustomark-config-test-"));
+    try {
+      await writeFile(
+        join(dir, "kustomark.yaml"),
+        yaml("  - op: append-to-section\n    id: a\n    contentFile: missing.md\n")
+      );
+
+      await expect(loadConfigFile(join(dir, "kustomark.yaml"))).rejects.toThrow(
+        "Patch 1: contentFile not found: missing.md"
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
 import { mkdtemp, rm, mkdir, writeFile } from "fs/promises";
-import { join } from "path";
+import { join, relative } from "path";
 import { tmpdir } from "os";
 import { explainConfig, explainFile } from "../src/core/explain.js";
 
@@ -214,5 +214,130 @@ patches:
       expect(result.patches[1].key).toBe("title");
       expect(result.patches[1].value).toBe("New Title");
     });
+
+    test("lists the source file's sections, skipping code blocks", async () => {
+      const baseDir = join(testDir, "sections");
+      await mkdir(baseDir, { recursive: true });
+
+      await writeFile(join(baseDir, "doc.md"), "# Doc\n\n```sh\n# comment\n```\n\n## Usage\n");
+      await writeFile(
+        join(baseDir, "kustomark.yaml"),
+        `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+resources:
+  - "*.md"
+`
+      );
+
+      const result = await explainFile(join(baseDir, "kustomark.yaml"), "doc.md");
+
+      expect(result.sections).toEqual([
+        { id: "doc", level: 1, title: "Doc", line: 1 },
+        { id: "usage", level: 2, title: "Usage", line: 7 },
+      ]);
+    });
+
+    test("resolves section selectors against the source", async () => {
+      const baseDir = join(testDir, "selectors");
+      await mkdir(baseDir, { recursive: true });
+
+      await writeFile(join(baseDir, "doc.md"), "# Doc\n\n## Install\n\n### Linux\n");
+      await writeFile(
+        join(baseDir, "kustomark.yaml"),
+        `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+resources:
+  - "*.md"
+patches:
+  - op: remove-section
+    id: install/linux
+  - op: remove-section
+    id: "[title=/^Win/]"
+`
+      );
+
+      const result = await explainFile(join(baseDir, "kustomark.yaml"), "doc.md");
+
+      expect(result.patches[0].section).toEqual({ id: "linux", level: 3, title: "Linux", line: 5 });
+      expect(result.patches[1].section).toBeNull();
+    });
+
+    test("shows where clauses and whether the source matches", async () => {
+      const baseDir = join(testDir, "where");
+      await mkdir(baseDir, { recursive: true });
+
+      await writeFile(join(baseDir, "doc.md"), "---\ncategory: git\n---\n# Doc\n");
+      await writeFile(
+        join(baseDir, "kustomark.yaml"),
+        `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+resources:
+  - "*.md"
+patches:
+  - op: replace
+    old: a
+    new: b
+    where:
+      category: git
+  - op: replace
+    old: a
+    new: b
+    where:
+      draft: { exists: true }
+`
+      );
+
+      const result = await explainFile(join(baseDir, "kustomark.yaml"), "doc.md");
+
+      expect(result.patches[0].where).toEqual({ category: "git" });
+      expect(result.patches[0].whereMatches).toBe(true);
+      expect(result.patches[1].whereMatches).toBe(false);
+    });
+
+    test("shows the snippets each patch uses and where they come from", async () => {
+      const baseDir = join(testDir, "snippets");
+      const teamDir = join(baseDir, "team");
+      await mkdir(teamDir, { recursive: true });
+
+      await writeFile(join(teamDir, "doc.md"), "# Doc\n");
+      await writeFile(join(teamDir, "footer.md"), "Team footer\n");
+      await writeFile(
+        join(teamDir, "kustomark.yaml"),
+        `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+resources:
+  - "*.md"
+snippets:
+  footer:
+    file: footer.md
+patches:
+  - op: append-to-section
+    id: doc
+    content: "\${snippets.policy} \${snippets.footer}"
+`
+      );
+      await writeFile(
+        join(baseDir, "kustomark.yaml"),
+        `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+resources:
+  - team/
+snippets:
+  policy: Team policy
+`
+      );
+
+      const result = await explainFile(join(baseDir, "kustomark.yaml"), "doc.md");
+
+      expect(result.patches[0].snippets).toEqual([
+        { name: "policy", config: relative(process.cwd(), baseDir) },
+        { name: "footer", config: relative(process.cwd(), teamDir), file: "footer.md" },
+      ]);
+    });
   });
 });
@@ -5,6 +5,7 @@ import {
   isFileOperationPatch,
   type ResourceFile,
 } from "../src/core/file-operations.js";
+import { applyPatches } from "../src/core/patches.js";
 import type { Patch } from "../src/core/config.js";
 
 describe("File Operations", () => {
@@ -185,6 +186,65 @@ describe("File Operations", () => {
         expect(result.warnings.length).toBe(1);
       });
     });
+
+    describe("create-file", () => {
+      test("creates a file with interpolated vars and snippets", () => {
+        const patches: Patch[] = [
+          { op: "create-file", dest: "skills/README.md", content: "# ${vars.team} skills (${file.name})\n\n${snippets.policy}\n" },
+        ];
+
+        const result = applyFileOperations(patches, [], {
+          vars: { team: "Docs" },
+          snippets: { policy: { content: "Follow the policy.", configPath: "/kustomark.yaml" } },
+        });
+
+        expect(result.addedFiles.get("skills/README.md")).toBe("# Docs skills (README)\n\nFollow the policy.\n");
+        expect(result.operationsApplied).toBe(1);
+      });
+
+      test("handles variables without a value with onNoMatch", () => {
+        const content = "# ${vars.team}\n";
+
+        const warned = applyFileOperations([{ op: "create-file", dest: "a.md", content }], []);
+        const skipped = applyFileOperations([{ op: "create-file", dest: "a.md", content, onNoMatch: "skip" }], []);
+
+        expect(warned.warnings).toEqual(["create-file: ${vars.team} has no value for 'a.md'"]);
+        expect(warned.addedFiles.size).toBe(0);
+        expect(skipped.warnings).toEqual([]);
+        expect(() =>
+          applyFileOperations([{ op: "create-file", dest: "a.md", content, onNoMatch: "error" }], [])
+        ).toThrow("create-file: ${vars.team} has no value for 'a.md'");
+      });
+
+      test("fails on an existing file by default", () => {
+        const resources: ResourceFile[] = [{ relativePath: "README.md", content: "old" }];
+        const patches: Patch[] = [{ op: "create-file", dest: "README.md", content: "new" }];
+
+        expect(() => applyFileOperations(patches, resources)).toThrow(
+          "create-file: 'README.md' already exists (set onConflict to overwrite or skip)"
+        );
+      });
+
+      test("overwrites or skips an existing file", () => {
+        const resources: ResourceFile[] = [
+          { relativePath: "README.md", content: "old" },
+          { relativePath: "draft.md", content: "draft" },
+        ];
+        const patches: Patch[] = [
+          { op: "create-file", dest: "README.md", content: "new", onConflict: "overwrite" },
+          { op: "rename-file", match: "draft.md", rename: "CLAUDE.md" },
+          { op: "create-file", dest: "CLAUDE.md", content: "stub", onConflict: "skip" },
+        ];
+
+        const result = applyFileOperations(patches, resources);
+        const files = applyFileOperationResults(resources, result);
+
+        expect(files).toEqual([
+          { relativePath: "CLAUDE.md", content: "draft" },
+          { relativePath: "README.md", content: "new" },
+        ]);
+      });
+    });
   });
 
   describe("applyFileOperationResults", () => {
@@ -289,5 +349,18 @@ describe("File Operations", () => {
       expect(fileOpsResult.operationsApplied).toBe(1);
       expect(fileOpsResult.addedFiles.size).toBe(1);
     });
+
+    test("content patches see created files", () => {
+      const patches: Patch[] = [
+        { op: "create-file", dest: "INDEX.md", content: "# Index\n\n## Skills\n" },
+        { op: "append-to-section", id: "skills", content: "- git" },
+      ];
+
+      const files = applyFileOperationResults([], applyFileOperations(patches, []));
+      const result = applyPatches(files[0].content, patches, files[0].relativePath);
+
+      expect(result.content).toContain("- git");
+      expect(result.applied).toBe(1);
+    });
   });
 });
@@ -15,6 +15,7 @@ import {
   type BuildManifest,
   type ManifestFile,
 } from "../src/core/incremental.js";
+import { loadConfigFile } from "../src/core/config.js";
 
 describe("Incremental Builds", () => {
   describe("calculateHash", () => {
@@ -66,6 +67,37 @@ describe("Incremental Builds", () => {
       const hash2 = calculatePatchesHash(patches2);
       expect(hash1).toBe(hash2);
     });
+
+    test("returns different hash when a content file changes", async () => {
+      const tempDir = join(tmpdir(), `kustomark-test-${Date.now()}`);
+      await mkdir(tempDir, { recursive: true });
+
+      try {
+        const configPath = join(tempDir, "kustomark.yaml");
+        await writeFile(
+          configPath,
+          `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+  - op: replace-section
+    id: policy
+    contentFile: policy.md
+`
+        );
+        await writeFile(join(tempDir, "policy.md"), "Old policy\n");
+        const hash1 = calculatePatchesHash((await loadConfigFile(configPath)).patches ?? []);
+
+        await writeFile(join(tempDir, "policy.md"), "New policy\n");
+        const hash2 = calculatePatchesHash((await loadConfigFile(configPath)).patches ?? []);
+
+        expect(hash1).not.toBe(hash2);
+      } finally {
+        await rm(tempDir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe("getManifestPath", () => {
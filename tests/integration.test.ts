@@ -344,6 +344,56 @@ patches:
       expect(result.bytes).toBeGreaterThan(0);
       expect(result.byOperation).toBeDefined();
       expect(result.byOperation.replace).toBe(1);
+      expect(result.occurrences).toEqual({ replace: { matched: 1, applied: 1 } });
+    });
+
+    test("reports broken links as build warnings", async () => {
+      const baseDir = join(testDir, "links-test");
+      const outputDir = join(testDir, "links-output");
+      await mkdir(baseDir, { recursive: true });
+
+      await writeFile(join(baseDir, "guide.md"), "# Guide\n\n## Install\n\nSee [api](api.md#methods).\n");
+      await writeFile(join(baseDir, "api.md"), "# API\n\n## Methods\n");
+
+      await writeFile(
+        join(baseDir, "kustomark.yaml"),
+        `apiVersion: kustomark/v1
+kind: Kustomization
+output: ${outputDir}
+resources:
+  - "*.md"
+validators:
+  - name: links
+    linksResolve: true
+patches:
+  - op: rename-header
+    id: methods
+    new: Endpoints
+    include: ["api.md"]
+  - op: rename-file
+    match: guide.md
+    rename: getting-started.md
+`
+      );
+
+      const proc = Bun.spawn(
+        ["bun", "run", "./src/cli/index.ts", "build", baseDir, "--format=json"],
+        {
+          cwd: process.cwd(),
+          stdout: "pipe",
+          stderr: "pipe",
+        }
+      );
+
+      const exitCode = await proc.exited;
+      const stdout = await new Response(proc.stdout).text();
+
+      expect(exitCode).toBe(0);
+
+      const result = JSON.parse(stdout);
+      expect(result.warnings).toEqual([
+        "Validator 'links' failed on getting-started.md:5: Broken link 'api.md#methods': no heading with anchor '#methods' in api.md",
+      ]);
     });
 
     test("--stats tracks skipped patches", async () => {
@@ -684,6 +734,40 @@ patches:
       ).toThrow();
     });
 
+    test("fails on a create-file conflict without validators", async () => {
+      const baseDir = join(testDir, "base");
+      await mkdir(baseDir, { recursive: true });
+      await writeFile(join(baseDir, "README.md"), "# Readme\n");
+      await writeFile(
+        join(baseDir, "kustomark.yaml"),
+        `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+  - op: create-file
+    dest: README.md
+    content: "# New"
+`
+      );
+
+      const proc = Bun.spawn(["bun", "run", "./src/cli/index.ts", "validate", baseDir, "--format=json"], {
+        cwd: process.cwd(),
+        env: { ...process.env },
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+      const exitCode = await proc.exited;
+      const output = JSON.parse(await new Response(proc.stdout).text());
+
+      expect(exitCode).toBe(1);
+      expect(output.valid).toBe(false);
+      expect(output.errors).toContain(
+        "File operations failed: create-file: 'README.md' already exists (set onConflict to overwrite or skip)"
+      );
+    });
+
     test("validates all patch types", async () => {
       const { parseConfig } = await import("../src/core/config.js");
 
@@ -1209,6 +1293,316 @@ resources:
     });
   });
 
+  describe("Fetch Command", () => {
+    async function runCli(args: string[], env: Record<string, string> = {}) {
+      const proc = Bun.spawn(["bun", "run", "./src/cli/index.ts", ...args], {
+        cwd: process.cwd(),
+        env: { ...process.env, KUSTOMARK_CACHE_DIR: join(testDir, "cache"), ...env },
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+      const exitCode = await proc.exited;
+      const stdout = await new Response(proc.stdout).text();
+      return { exitCode, stdout };
+    }
+
+    test("reports fetched remotes and writes the lock file", async () => {
+      const server = Bun.serve({
+        port: 0,
+        fetch: () => new Response("# Remote\n\nContent.\n"),
+      });
+
+      try {
+        const baseDir = join(testDir, "fetch");
+        await mkdir(baseDir, { recursive: true });
+        const url = `http://localhost:${server.port}/remote.md`;
+        await writeFile(
+          join(baseDir, "kustomark.yaml"),
+          `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+resources:
+  - ${url}
+`
+        );
+
+        const first = await runCli(["fetch", baseDir, "--format=json"]);
+        expect(first.exitCode).toBe(0);
+        expect(JSON.parse(first.stdout)).toEqual({
+          success: true,
+          fetched: [{ url, cached: false }],
+        });
+
+        const lockContent = await readFile(join(baseDir, "kustomark.lock.yaml"), "utf-8");
+        expect(lockContent).toContain(url);
+        expect(lockContent).toContain("sha256-");
+
+        const second = await runCli(["fetch", baseDir, "--format=json", "--offline"]);
+        expect(second.exitCode).toBe(0);
+        expect(JSON.parse(second.stdout).fetched[0].cached).toBe(true);
+      } finally {
+        server.stop(true);
+      }
+    });
+
+    test("--no-lock does not write a lock file", async () => {
+      const server = Bun.serve({
+        port: 0,
+        fetch: () => new Response("# Remote\n"),
+      });
+
+      try {
+        const baseDir = join(testDir, "fetch-no-lock");
+        await mkdir(baseDir, { recursive: true });
+        await writeFile(
+          join(baseDir, "kustomark.yaml"),
+          `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+resources:
+  - http://localhost:${server.port}/remote.md
+`
+        );
+
+        const { exitCode } = await runCli(["fetch", baseDir, "--no-lock"]);
+        expect(exitCode).toBe(0);
+
+        const files = await readdir(baseDir);
+        expect(files).not.toContain("kustomark.lock.yaml");
+      } finally {
+        server.stop(true);
+      }
+    });
+
+    test("build --update refetches a cached git remote", async () => {
+      const repoDir = join(testDir, "repo");
+      await mkdir(join(repoDir, "docs"), { recursive: true });
+      await writeFile(join(repoDir, "docs", "guide.md"), "# Guide\n");
+      const git = (...args: string[]) =>
+        Bun.spawnSync(["git", "-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+          cwd: repoDir,
+        }).exitCode;
+      expect(git("init", "-q")).toBe(0);
+      expect(git("add", "-A")).toBe(0);
+      expect(git("commit", "-q", "-m", "init")).toBe(0);
+
+      const baseDir = join(testDir, "update");
+      await mkdir(baseDir, { recursive: true });
+      await writeFile(
+        join(baseDir, "kustomark.yaml"),
+        `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+resources:
+  - git::file://${repoDir}//docs
+`
+      );
+
+      expect((await runCli(["build", baseDir, "--format=json"])).exitCode).toBe(0);
+      await writeFile(join(repoDir, "docs", "guide.md"), "# Guide v2\n");
+      expect(git("commit", "-q", "-am", "update")).toBe(0);
+
+      const { exitCode, stdout } = await runCli(["build", baseDir, "--update", "--format=json"]);
+
+      expect(exitCode).toBe(0);
+      expect(JSON.parse(stdout).success).toBe(true);
+      expect(await readFile(join(baseDir, "output", "guide.md"), "utf-8")).toBe("# Guide v2\n");
+    });
+
+    test("rejects --offline with --update", async () => {
+      const baseDir = join(testDir, "offline-update");
+      await mkdir(baseDir, { recursive: true });
+      await writeFile(
+        join(baseDir, "kustomark.yaml"),
+        `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+resources:
+  - "*.md"
+`
+      );
+
+      const { exitCode, stdout } = await runCli(["fetch", baseDir, "--offline", "--update", "--format=json"]);
+
+      expect(exitCode).toBe(1);
+      expect(JSON.parse(stdout).error).toContain("--offline and --update cannot be used together");
+    });
+
+    test("build --offline fails when a remote is not cached", async () => {
+      const baseDir = join(testDir, "offline");
+      await mkdir(baseDir, { recursive: true });
+      await writeFile(
+        join(baseDir, "kustomark.yaml"),
+        `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+resources:
+  - https://example.invalid/skills.tar.gz
+`
+      );
+
+      const { exitCode, stdout } = await runCli(["build", baseDir, "--offline", "--format=json"]);
+      const result = JSON.parse(stdout);
+
+      expect(exitCode).toBe(1);
+      expect(result.success).toBe(false);
+      expect(result.warnings[0]).toContain("Offline mode");
+    });
+  });
+
+  describe("Cache Command", () => {
+    async function runCli(args: string[], cwd: string) {
+      const proc = Bun.spawn(["bun", "run", join(process.cwd(), "src/cli/index.ts"), ...args], {
+        cwd,
+        env: { ...process.env, KUSTOMARK_CACHE_DIR: join(testDir, "cache") },
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+      const exitCode = await proc.exited;
+      const stdout = await new Response(proc.stdout).text();
+      return { exitCode, stdout };
+    }
+
+    async function setupProject(): Promise<string> {
+      const baseDir = join(testDir, "cache-project");
+      await mkdir(baseDir, { recursive: true });
+      await writeFile(join(baseDir, "doc.md"), "# Doc\n\nHello\n");
+      await writeFile(
+        join(baseDir, "kustomark.yaml"),
+        `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+resources:
+  - "*.md"
+patches:
+  - op: replace
+    old: Hello
+    new: World
+`
+      );
+
+      const httpEntry = join(testDir, "cache", "http", "example_com_docs_md");
+      await mkdir(httpEntry, { recursive: true });
+      await writeFile(join(httpEntry, "docs.md"), "# Docs\n");
+
+      return baseDir;
+    }
+
+    test("lists remote and build cache entries as JSON", async () => {
+      const baseDir = await setupProject();
+      expect((await runCli(["build", ".", "--cache"], baseDir)).exitCode).toBe(0);
+
+      const { exitCode, stdout } = await runCli(["cache", "list", "--format=json"], baseDir);
+      const result = JSON.parse(stdout);
+
+      expect(exitCode).toBe(0);
+      expect(result.success).toBe(true);
+      expect(result.entries.map((e: { type: string }) => e.type).sort()).toEqual(["build", "http"]);
+      const httpEntry = result.entries.find((e: { type: string }) => e.type === "http");
+      expect(httpEntry.key).toBe("example_com_docs_md");
+      expect(httpEntry.size).toBe(7);
+      expect(result.totalSize).toBeGreaterThan(7);
+    });
+
+    test("keeps occurrence stats for files served from the build cache", async () => {
+      const baseDir = await setupProject();
+      const build = async () =>
+        JSON.parse((await runCli(["build", ".", "--cache", "--stats", "--format=json"], baseDir)).stdout);
+
+      const cold = await build();
+      const cached = await build();
+
+      expect(cold.occurrences).toEqual({ replace: { matched: 1, applied: 1 } });
+      expect(cached.occurrences).toEqual(cold.occurrences);
+    });
+
+    test("rebuilds cached files when a var changes", async () => {
+      const baseDir = join(testDir, "cache-vars");
+      await mkdir(baseDir, { recursive: true });
+      await writeFile(join(baseDir, "doc.md"), "# Doc\n\nProduct\n");
+      const writeConfig = (product: string) =>
+        writeFile(
+          join(baseDir, "kustomark.yaml"),
+          `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+vars:
+  product: ${product}
+resources:
+  - "*.md"
+patches:
+  - op: replace
+    old: Product
+    new: "Product \${vars.product}"
+`
+        );
+
+      await writeConfig("One");
+      expect((await runCli(["build", ".", "--cache"], baseDir)).exitCode).toBe(0);
+      await writeConfig("Two");
+      expect((await runCli(["build", ".", "--cache"], baseDir)).exitCode).toBe(0);
+
+      expect(await readFile(join(baseDir, "output", "doc.md"), "utf-8")).toBe("# Doc\n\nProduct Two\n");
+    });
+
+    test("rebuilds cached links when another file's headers change", async () => {
+      const baseDir = join(testDir, "cache-links");
+      await mkdir(baseDir, { recursive: true });
+      await writeFile(join(baseDir, "a.md"), "# A\n\nSee [setup](b.md#setup).\n");
+      await writeFile(join(baseDir, "b.md"), "# B\n\n## Setup\n");
+      await writeFile(
+        join(baseDir, "kustomark.yaml"),
+        `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./output
+resources:
+  - "*.md"
+patches:
+  - op: rename-header
+    id: setup
+    new: Install
+    onNoMatch: skip
+  - op: rewrite-links
+    anchors: true
+`
+      );
+
+      expect((await runCli(["build", ".", "--cache"], baseDir)).exitCode).toBe(0);
+      expect(await readFile(join(baseDir, "output", "a.md"), "utf-8")).toContain("(b.md#install)");
+
+      await writeFile(join(baseDir, "b.md"), "# B\n\n## Usage\n");
+      expect((await runCli(["build", ".", "--cache"], baseDir)).exitCode).toBe(0);
+
+      expect(await readFile(join(baseDir, "output", "a.md"), "utf-8")).toContain("(b.md#setup)");
+    });
+
+    test("clear with a filter only removes matching remote entries", async () => {
+      const baseDir = await setupProject();
+      expect((await runCli(["build", ".", "--cache"], baseDir)).exitCode).toBe(0);
+
+      const { stdout } = await runCli(["cache", "clear", "example.com", "--format=json"], baseDir);
+      expect(JSON.parse(stdout)).toEqual({ success: true, action: "clear", cleared: 1 });
+
+      const list = JSON.parse((await runCli(["cache", "list", "--format=json"], baseDir)).stdout);
+      expect(list.entries.map((e: { type: string }) => e.type)).toEqual(["build"]);
+    });
+
+    test("prune requires --older-than and keeps recent entries", async () => {
+      const baseDir = await setupProject();
+
+      const missing = await runCli(["cache", "prune", "--format=json"], baseDir);
+      expect(missing.exitCode).toBe(1);
+      expect(JSON.parse(missing.stdout).error).toContain("--older-than");
+
+      const { exitCode, stdout } = await runCli(
+        ["cache", "prune", "--older-than=7d", "--format=json"],
+        baseDir
+      );
+      expect(exitCode).toBe(0);
+      expect(JSON.parse(stdout).pruned).toBe(0);
+    });
+  });
+
   describe("Lint Command", () => {
     test("lints valid config with no issues", async () => {
       const baseDir = join(testDir, "lint-clean");
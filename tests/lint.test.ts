@@ -195,6 +195,62 @@ describe("Lint", () => {
     });
   });
 
+  describe("checkWhere", () => {
+    test("warns when a where clause matches no source file", () => {
+      const config: KustomarkConfig = {
+        ...baseConfig,
+        patches: [
+          { op: "replace", old: "a", new: "b", where: { category: "git" } },
+          { op: "replace", old: "a", new: "b", where: { category: "web" } },
+        ],
+      };
+      const resources = [
+        { relativePath: "a.md", content: "---\ncategory: git\n---\n# A" },
+        { relativePath: "b.md", content: "# B" },
+      ];
+
+      const result = lintConfig(config, resources);
+
+      expect(result.issues.map((issue) => [issue.patchIndex, issue.message])).toEqual([
+        [1, `Patch 2 (replace) 'where' (category = "web") matches no files`],
+      ]);
+    });
+  });
+
+  describe("checkRemoteSecurity", () => {
+    test("reports remote resources outside the allowlists", () => {
+      const config: KustomarkConfig = {
+        ...baseConfig,
+        resources: [
+          "*.md",
+          "github.com/org/repo//skills?ref=v1",
+          "https://evil.example.org/skills.tar.gz",
+          { url: "git::git@internal.company.com:org/repo.git//docs" },
+        ],
+        security: {
+          allowedHosts: ["github.com", "*.company.com"],
+          allowedProtocols: ["https"],
+        },
+      };
+
+      const result = lintConfig(config);
+      const messages = result.issues.map((i) => i.message);
+
+      expect(result.errorCount).toBe(2);
+      expect(messages[0]).toContain("host 'evil.example.org' is not allowed");
+      expect(messages[1]).toContain("protocol 'ssh' is not allowed");
+    });
+
+    test("does nothing without a security block", () => {
+      const config: KustomarkConfig = {
+        ...baseConfig,
+        resources: ["https://anywhere.example.com/docs.md"],
+      };
+
+      expect(lintConfig(config).errorCount).toBe(0);
+    });
+  });
+
   describe("lintConfig", () => {
     test("returns correct issue counts", () => {
       const config: KustomarkConfig = {
@@ -1,5 +1,13 @@
 import { describe, test, expect } from "bun:test";
-import { applyPatches, resolveExtends } from "../src/core/patches.js";
+import {
+  applyPatches,
+  createLinkContext,
+  describeWhere,
+  parseCodeBlocks,
+  parseSections,
+  parseTables,
+  resolveExtends,
+} from "../src/core/patches.js";
 import type { Patch } from "../src/core/config.js";
 
 describe("Patch Operations", () => {
@@ -23,6 +31,12 @@ describe("Patch Operations", () => {
       expect(result.content).toBe("hello world");
       expect(result.warnings.length).toBeGreaterThan(0);
     });
+
+    test("throws on an empty old string", () => {
+      const patches: Patch[] = [{ op: "replace", old: "", new: "X" }];
+
+      expect(() => applyPatches("abc", patches, "test.md")).toThrow("Patch 'replace' has an empty old string");
+    });
   });
 
   describe("replace-regex", () => {
@@ -103,6 +117,237 @@ Content here
     });
   });
 
+  describe("code-aware section parsing", () => {
+    test("ignores headers inside fenced code blocks", () => {
+      const content = `# Setup
+
+\`\`\`bash
+# install dependencies
+npm install
+\`\`\`
+
+~~~
+# also a comment
+~~~
+
+## Usage`;
+
+      expect(parseSections(content).map((s) => s.id)).toEqual(["setup", "usage"]);
+    });
+
+    test("handles info strings and longer fences", () => {
+      const content = `# Doc
+
+\`\`\`\`markdown title="example.md"
+\`\`\`
+# Not a header
+\`\`\`
+\`\`\`\`
+
+## After`;
+
+      const sections = parseSections(content);
+      expect(sections.map((s) => s.id)).toEqual(["doc", "after"]);
+      expect(sections[1].headerLine).toBe(8);
+    });
+
+    test("ignores indented code and HTML comments", () => {
+      const content = `# Doc
+
+    # indented code
+
+<!--
+# commented out
+-->
+
+## Real`;
+
+      expect(parseSections(content).map((s) => s.id)).toEqual(["doc", "real"]);
+    });
+
+    test("treats an unclosed fence as running to the end", () => {
+      const content = "# Doc\n\n```\n# inside\n";
+
+      expect(parseSections(content).map((s) => s.id)).toEqual(["doc"]);
+    });
+
+    test("remove-section keeps slug numbering stable across code blocks", () => {
+      const content = `# Guide
+
+## Example
+
+\`\`\`bash
+# Example
+\`\`\`
+
+## Example
+
+Second example
+
+## End`;
+      const patches: Patch[] = [{ op: "remove-section", id: "example-1", includeChildren: true }];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(1);
+      expect(result.content).toContain("# Example\n```");
+      expect(result.content).not.toContain("Second example");
+      expect(result.content).toContain("## End");
+    });
+  });
+
+  describe("setext and closing-hash headers", () => {
+    test("parses setext headers and strips closing hashes", () => {
+      const content = `Title
+=====
+
+Intro
+
+Install
+-------
+
+### Linux ###
+
+- item
+---`;
+
+      const sections = parseSections(content);
+
+      expect(sections.map((s) => [s.id, s.level, s.style])).toEqual([
+        ["title", 1, "setext"],
+        ["install", 2, "setext"],
+        ["linux", 3, "atx"],
+      ]);
+      expect(sections[2].title).toBe("Linux");
+      expect(sections[2].closingSequence).toBe(" ###");
+    });
+
+    test("ignores YAML comments in frontmatter", () => {
+      const content = `---
+# generated
+title: Doc
+---
+
+# Doc`;
+
+      expect(parseSections(content).map((s) => s.id)).toEqual(["doc"]);
+    });
+
+    test("replace-section keeps the setext underline", () => {
+      const content = "Usage\n-----\n\nOld\n\nNext\n----\n";
+      const patches: Patch[] = [{ op: "replace-section", id: "usage", content: "New" }];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toBe("Usage\n-----\n\nNew\nNext\n----\n");
+    });
+
+    test("rename-header preserves setext style and closing hashes", () => {
+      const content = "Usage\n-----\n\n## Options ##\n";
+      const patches: Patch[] = [
+        { op: "rename-header", id: "usage", new: "How to use" },
+        { op: "rename-header", id: "options", new: "Flags" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toBe("How to use\n----------\n\n## Flags ##\n");
+    });
+
+    test("change-section-level converts setext to ATX past level 2", () => {
+      const content = "Guide\n=====\n\nSetup\n-----\n\nText\n";
+      const patches: Patch[] = [{ op: "change-section-level", id: "guide", delta: 1 }];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toBe("Guide\n-----\n\n### Setup\n\nText\n");
+    });
+  });
+
+  describe("section selectors", () => {
+    const content = `# Guide
+
+## Installation
+
+### Linux
+
+Install on Linux.
+
+## Usage
+
+### Linux
+
+Run on Linux.
+
+## Example
+
+First.
+
+## Example
+
+Second.
+`;
+
+    test("accepts slugs of non-ASCII headings", () => {
+      const patches: Patch[] = [
+        { op: "remove-section", id: "café-menu/crème-brûlée", includeChildren: true },
+      ];
+
+      const result = applyPatches("# Café Menu\n\n## Crème Brûlée\n\nSweet.\n", patches, "test.md");
+
+      expect(result.applied).toBe(1);
+      expect(result.content).not.toContain("Sweet.");
+    });
+
+    test("resolves a parent/child path", () => {
+      const patches: Patch[] = [
+        { op: "remove-section", id: "usage/linux", includeChildren: true },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("Install on Linux.");
+      expect(result.content).not.toContain("Run on Linux.");
+    });
+
+    test("matches exact titles, title regexes and levels", () => {
+      const patches: Patch[] = [
+        { op: "rename-header", id: '[title="Installation"]', new: "Setup" },
+        { op: "rename-header", id: "[title=/^us/i][level=2]", new: "Running" },
+        { op: "rename-header", id: "[level=3]", new: "GNU/Linux" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("## Setup\n\n### GNU/Linux\n");
+      expect(result.content).toContain("## Running\n\n### Linux\n");
+    });
+
+    test("selects the nth occurrence of a repeated header", () => {
+      const patches: Patch[] = [
+        { op: "replace-section", id: "example:nth(2)", content: "Replaced." },
+        { op: "append-to-section", id: "example", content: "More." },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toMatch(/## Example\n\nFirst\.\s+More\.\n## Example\n\nReplaced\./);
+      expect(result.content).not.toContain("Second.");
+    });
+
+    test("reports no match when the path doesn't resolve", () => {
+      const patches: Patch[] = [
+        { op: "remove-section", id: "installation/windows", includeChildren: true },
+        { op: "remove-section", id: "linux:nth(3)", includeChildren: true },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(0);
+      expect(result.warnings).toHaveLength(2);
+    });
+  });
+
   describe("prepend-to-section", () => {
     test("adds content at section start", () => {
       const content = `# Main
@@ -427,6 +672,84 @@ metadata:
       expect(result.content).toContain("date:");
       expect(result.content).toContain("version: \"2.0\"");
     });
+
+    test("merges arrays with the concat and union strategies", () => {
+      const content = `---
+meta:
+  tags: [a, b]
+---
+`;
+      const values = { meta: { tags: ["b", "c"] } };
+
+      const concat = applyPatches(content, [{ op: "merge-frontmatter", values, strategy: "concat" }], "test.md");
+      const union = applyPatches(content, [{ op: "merge-frontmatter", values, strategy: "union" }], "test.md");
+      const replace = applyPatches(content, [{ op: "merge-frontmatter", values }], "test.md");
+
+      expect(concat.content).toBe("---\nmeta:\n  tags:\n    - a\n    - b\n    - b\n    - c\n---\n");
+      expect(union.content).toBe("---\nmeta:\n  tags:\n    - a\n    - b\n    - c\n---\n");
+      expect(replace.content).toBe("---\nmeta:\n  tags:\n    - b\n    - c\n---\n");
+    });
+  });
+
+  describe("frontmatter arrays", () => {
+    const content = `---
+tags: [docs, beta, docs]
+meta:
+  versions: [10, 2, 1]
+---
+
+# Title`;
+
+    test("append-to-frontmatter adds missing values and creates arrays", () => {
+      const patches: Patch[] = [
+        { op: "append-to-frontmatter", key: "tags", value: ["beta", "internal"] },
+        { op: "append-to-frontmatter", key: "meta.owners", value: "docs-team" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("tags:\n  - docs\n  - beta\n  - docs\n  - internal\n");
+      expect(result.content).toContain("  owners:\n    - docs-team\n");
+      expect(result.applied).toBe(2);
+    });
+
+    test("remove-from-frontmatter removes every matching value", () => {
+      const patches: Patch[] = [{ op: "remove-from-frontmatter", key: "tags", value: "docs" }];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("tags:\n  - beta\nmeta:");
+    });
+
+    test("dedupe-frontmatter and sort-frontmatter", () => {
+      const patches: Patch[] = [
+        { op: "dedupe-frontmatter", key: "tags" },
+        { op: "sort-frontmatter", key: "tags" },
+        { op: "sort-frontmatter", key: "meta.versions", order: "desc" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("tags:\n  - beta\n  - docs\nmeta:\n  versions:\n    - 10\n    - 2\n    - 1\n");
+      expect(result.applied).toBe(3);
+    });
+
+    test("reports missing keys, non-arrays and absent values via onNoMatch", () => {
+      const patches: Patch[] = [
+        { op: "remove-from-frontmatter", key: "tags", value: "missing", onNoMatch: "warn" },
+        { op: "dedupe-frontmatter", key: "meta", onNoMatch: "warn" },
+        { op: "sort-frontmatter", key: "nope", onNoMatch: "warn" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(0);
+      expect(result.warnings).toEqual([
+        "Patch 'remove-from-frontmatter' did not match: no matching value in \"tags\" in frontmatter of test.md",
+        "Patch 'dedupe-frontmatter' did not match: key \"meta\" is not an array in frontmatter of test.md",
+        "Patch 'sort-frontmatter' did not match: key \"nope\" not found in frontmatter of test.md",
+      ]);
+    });
   });
 
   describe("insert-after-line", () => {
@@ -963,6 +1286,900 @@ Content`;
     });
   });
 
+  describe("insert-section", () => {
+    const content = `# Guide
+
+Intro.
+
+## Installation
+
+Install it.
+
+### Linux
+
+Use apt.
+
+## Usage
+
+Run it.
+`;
+
+    test("inserts after a section and its children", () => {
+      const patches: Patch[] = [
+        {
+          op: "insert-section",
+          level: 2,
+          title: "Team Conventions",
+          content: "Follow the style guide.",
+          after: "installation",
+        },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(1);
+      expect(result.content).toContain(
+        "Use apt.\n\n## Team Conventions\n\nFollow the style guide.\n\n## Usage\n"
+      );
+    });
+
+    test("inserts before a section with an explicit id", () => {
+      const patches: Patch[] = [
+        { op: "insert-section", level: 2, title: "Requirements {#reqs}", content: "", before: "installation" },
+        { op: "append-to-section", id: "reqs", content: "Bun 1.0" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(2);
+      expect(result.content).toMatch(/Intro\.\n\n## Requirements \{#reqs\}\s+Bun 1\.0\n## Installation/);
+      expect(parseSections(result.content).map((s) => s.id)).toContain("reqs");
+    });
+
+    test("inserts as the first or last child of a parent", () => {
+      const patches: Patch[] = [
+        { op: "insert-section", level: 3, title: "macOS", content: "Use brew.", firstChildOf: "installation" },
+        { op: "insert-section", level: 3, title: "Windows", content: "Use winget.", lastChildOf: "installation" },
+        { op: "insert-section", level: 2, title: "License", content: "MIT", lastChildOf: "guide" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(parseSections(result.content).map((s) => s.id)).toEqual([
+        "guide",
+        "installation",
+        "macos",
+        "linux",
+        "windows",
+        "usage",
+        "license",
+      ]);
+      expect(result.content).toContain("Install it.\n\n### macOS\n\nUse brew.\n\n### Linux");
+      expect(result.content.endsWith("Run it.\n\n## License\n\nMIT\n")).toBe(true);
+    });
+
+    test("handles a missing target or placement with onNoMatch", () => {
+      const patches: Patch[] = [
+        { op: "insert-section", level: 2, title: "FAQ", content: "", after: "missing" },
+        { op: "insert-section", level: 2, title: "FAQ", content: "" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(0);
+      expect(result.warnings[0]).toContain('section "missing" not found');
+      expect(result.warnings[1]).toContain("requires exactly one of");
+      expect(() =>
+        applyPatches(content, [{ ...patches[0], onNoMatch: "error" } as Patch], "test.md")
+      ).toThrow();
+    });
+  });
+
+  describe("table operations", () => {
+    const content = `# Skill
+
+## Permissions
+
+| Tool | Allowed | Notes |
+|:-----|:-------:|------:|
+| Read | yes | |
+| Bash | no | shell \\| pipes |
+
+## Options
+
+| Name | Priority |
+| --- | --- |
+| beta | 10 |
+| alpha | 2 |
+| gamma | 33 |
+`;
+
+    test("parses tables with alignment and escaped pipes", () => {
+      const tables = parseTables(content);
+
+      expect(tables).toHaveLength(2);
+      expect(tables[0].header).toEqual(["Tool", "Allowed", "Notes"]);
+      expect(tables[0].align).toEqual(["left", "center", "right"]);
+      expect(tables[0].rows[1]).toEqual(["Bash", "no", "shell \\| pipes"]);
+      expect(tables[1].startLine).toBe(11);
+      expect(tables[1].endLine).toBe(15);
+    });
+
+    test("ignores tables inside code blocks", () => {
+      const tables = parseTables("```\n| a | b |\n| - | - |\n```\n");
+
+      expect(tables).toHaveLength(0);
+    });
+
+    test("adds a row by column name and realigns pipes", () => {
+      const patches: Patch[] = [
+        { op: "table-add-row", section: "permissions", row: { Tool: "WebFetch", Allowed: "yes" } },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain(`| Tool     | Allowed |          Notes |
+| :------- | :-----: | -------------: |
+| Read     |   yes   |                |
+| Bash     |   no    | shell \\| pipes |
+| WebFetch |   yes   |                |
+`);
+    });
+
+    test("escapes pipes and flattens line breaks in written cells", () => {
+      const patches: Patch[] = [
+        { op: "table-add-row", section: "permissions", row: ["Grep", "a|b", "one\ntwo"] },
+        { op: "table-set-cell", section: "permissions", key: "Read", column: "Notes", value: "x | y" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+      const rows = parseTables(result.content)[0].rows;
+
+      expect(rows[0]).toEqual(["Read", "yes", "x \\| y"]);
+      expect(rows[2]).toEqual(["Grep", "a\\|b", "one two"]);
+    });
+
+    test("removes rows, sets cells and sorts by column", () => {
+      const patches: Patch[] = [
+        { op: "table-remove-rows", header: ["Tool"], column: "Tool", match: "Read" },
+        { op: "table-set-cell", section: "permissions", key: "Bash", column: "Allowed", value: "ask" },
+        { op: "table-sort", section: "options", column: "Priority", numeric: true, order: "desc" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(3);
+      expect(result.content).not.toContain("| Read");
+      expect(result.content).toContain("| Bash |   ask   |");
+      expect(result.content).toContain(`| Name  | Priority |
+| ----- | -------- |
+| gamma | 33       |
+| beta  | 10       |
+| alpha | 2        |`);
+    });
+
+    test("adds and removes columns", () => {
+      const patches: Patch[] = [
+        { op: "table-add-column", section: "options", column: "Default", default: "-", after: "Name", align: "center" },
+        { op: "table-remove-column", section: "permissions", column: "Notes" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain(`| Tool | Allowed |
+| :--- | :-----: |
+| Read |   yes   |
+| Bash |   no    |`);
+      expect(result.content).toContain(`| Name  | Default | Priority |
+| ----- | :-----: | -------- |
+| beta  |    -    | 10       |`);
+    });
+
+    test("handles missing tables, columns and rows with onNoMatch", () => {
+      const patches: Patch[] = [
+        { op: "table-sort", section: "skill", header: ["Missing"], column: "Missing" },
+        { op: "table-set-cell", section: "options", key: "delta", column: "Priority", value: "1" },
+        { op: "table-remove-column", section: "options", column: "Other" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(0);
+      expect(result.warnings).toEqual([
+        `Patch 'table-sort' did not match: table in section "skill" with columns "Missing" not found in test.md`,
+        `Patch 'table-set-cell' did not match: row "delta" not found in test.md`,
+        `Patch 'table-remove-column' did not match: column "Other" not found in test.md`,
+      ]);
+    });
+  });
+
+  describe("list operations", () => {
+    const content = `# Checklist
+
+## Steps
+
+1. Clone the repo
+2. Install dependencies
+   - bun install
+   - bun run build
+3. Run tests
+
+## Notes
+
+- Keep it short
+- Link issues
+
+\`\`\`
+- not a list item
+\`\`\`
+`;
+
+    test("appends, prepends and inserts items with renumbering", () => {
+      const patches: Patch[] = [
+        { op: "list-add-item", section: "steps", item: "Open a PR" },
+        { op: "list-add-item", section: "steps", item: "Fork the repo", position: "start" },
+        { op: "list-add-item", section: "steps", item: "Configure env", index: 3 },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(3);
+      expect(result.content).toContain(`1. Fork the repo
+2. Clone the repo
+3. Configure env
+4. Install dependencies
+   - bun install
+   - bun run build
+5. Run tests
+6. Open a PR
+
+## Notes`);
+    });
+
+    test("inserts relative to a nested item, keeping its indentation", () => {
+      const patches: Patch[] = [
+        { op: "list-add-item", section: "steps", item: "bun run lint", after: "bun install" },
+        { op: "list-add-item", section: "notes", item: "Be kind", before: "Link" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("   - bun install\n   - bun run lint\n   - bun run build\n");
+      expect(result.content).toContain("- Keep it short\n- Be kind\n- Link issues\n");
+    });
+
+    test("removes matching items with their nested items and renumbers", () => {
+      const patches: Patch[] = [
+        { op: "list-remove-items", section: "steps", pattern: "^(Clone|Install)" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("## Steps\n\n1. Run tests\n\n## Notes");
+    });
+
+    test("replaces an item's text and keeps its nested items", () => {
+      const patches: Patch[] = [
+        { op: "list-replace-item", section: "steps", match: "Install", item: "Install with Bun" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("2. Install with Bun\n   - bun install\n");
+    });
+
+    test("targets the nth list and keeps loose lists loose", () => {
+      const loose = "Intro\n\n- first\n\n- second\n\nText\n\n* other\n";
+      const patches: Patch[] = [
+        { op: "list-add-item", item: "third" },
+        { op: "list-add-item", list: 2, item: "more", position: "start" },
+      ];
+
+      const result = applyPatches(loose, patches, "test.md");
+
+      expect(result.content).toBe("Intro\n\n- first\n\n- second\n\n- third\n\nText\n\n* more\n* other\n");
+    });
+
+    test("handles missing lists and items with onNoMatch", () => {
+      const patches: Patch[] = [
+        { op: "list-add-item", section: "checklist", list: 3, item: "x" },
+        { op: "list-remove-items", section: "notes", match: "not a list item" },
+        { op: "list-add-item", section: "steps", item: "x", index: 9 },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(0);
+      expect(result.warnings).toEqual([
+        `Patch 'list-add-item' did not match: list 3 in section "checklist" not found in test.md`,
+        `Patch 'list-remove-items' did not match: no list items matched in test.md`,
+        `Patch 'list-add-item' did not match: index 9 is past the end of the list (3 items) in test.md`,
+      ]);
+    });
+  });
+
+  describe("code block operations", () => {
+    const content = `# Setup
+
+Run npm install to get started.
+
+## Install
+
+\`\`\`bash
+npm install
+npm run build
+\`\`\`
+
+\`\`\`json title="package.json"
+{ "scripts": { "build": "npm run compile" } }
+\`\`\`
+
+## Usage
+
+- Example:
+
+  \`\`\`bash
+  npm start
+  \`\`\`
+`;
+
+    test("parses fenced blocks with language, info and body", () => {
+      const blocks = parseCodeBlocks(content);
+
+      expect(blocks.map((b) => [b.language, b.info, b.startLine, b.endLine])).toEqual([
+        ["bash", "bash", 6, 9],
+        ["json", 'json title="package.json"', 11, 13],
+        ["bash", "bash", 19, 21],
+      ]);
+      expect(blocks[2].body).toBe("npm start");
+    });
+
+    test("runs a scoped replace only inside matching blocks", () => {
+      const patches: Patch[] = [
+        { op: "replace-in-code-block", language: "bash", old: "npm", new: "bun" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("Run npm install to get started.");
+      expect(result.content).toContain("```bash\nbun install\nbun run build\n```");
+      expect(result.content).toContain('"build": "npm run compile"');
+      expect(result.content).toContain("  ```bash\n  bun start\n  ```");
+    });
+
+    test("runs a scoped regex on the nth block in a section", () => {
+      const patches: Patch[] = [
+        {
+          op: "replace-in-code-block",
+          section: "install",
+          index: 2,
+          pattern: "npm run (\\w+)",
+          replacement: "bun run $1",
+        },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("npm install\nnpm run build");
+      expect(result.content).toContain('"build": "bun run compile"');
+    });
+
+    test("replaces a block body and changes its language", () => {
+      const patches: Patch[] = [
+        { op: "replace-code-block", section: "usage", content: "bun start\nbun test\n" },
+        { op: "change-code-block-language", contains: "scripts", new: "jsonc" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("  ```bash\n  bun start\n  bun test\n  ```");
+      expect(result.content).toContain('```jsonc title="package.json"');
+    });
+
+    test("removes a block and the blank line after it", () => {
+      const patches: Patch[] = [{ op: "remove-code-block", language: "JSON" }];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("npm run build\n```\n\n## Usage");
+    });
+
+    test("handles unmatched blocks with onNoMatch", () => {
+      const patches: Patch[] = [
+        { op: "remove-code-block", language: "python", section: "install" },
+        { op: "replace-in-code-block", language: "bash", old: "yarn", new: "bun" },
+        { op: "replace-code-block", section: "missing", content: "" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(0);
+      expect(result.warnings).toEqual([
+        `Patch 'remove-code-block' did not match: no code block (language "python", in section "install") found in test.md`,
+        `Patch 'replace-in-code-block' did not match: no change in the selected code blocks in test.md`,
+        `Patch 'replace-code-block' did not match: section "missing" not found in test.md`,
+      ]);
+    });
+  });
+
+  describe("generate-toc", () => {
+    const doc = [
+      "# Guide",
+      "",
+      "<!-- toc -->",
+      "- stale",
+      "<!-- /toc -->",
+      "",
+      "## Install",
+      "",
+      "### Linux",
+      "",
+      "## Usage",
+      "",
+      "## Usage",
+      "",
+      "## Changelog",
+      "",
+      "### v1",
+    ].join("\n");
+
+    test("refreshes the table of contents between markers", () => {
+      const patches: Patch[] = [{ op: "generate-toc" }];
+
+      const result = applyPatches(doc, patches, "test.md");
+
+      expect(result.content.split("\n").slice(2, 11)).toEqual([
+        "<!-- toc -->",
+        "- [Install](#install)",
+        "  - [Linux](#linux)",
+        "- [Usage](#usage)",
+        "- [Usage](#usage-1)",
+        "- [Changelog](#changelog)",
+        "  - [v1](#v1)",
+        "<!-- /toc -->",
+        "",
+      ]);
+      expect(result.applied).toBe(1);
+    });
+
+    test("reflects earlier patches, levels and exclusions", () => {
+      const patches: Patch[] = [
+        { op: "remove-section", id: "install", includeChildren: true },
+        { op: "rename-header", id: "usage-1", new: "Advanced `usage`" },
+        { op: "generate-toc", minLevel: 1, maxLevel: 2, excludeSections: ["changelog"] },
+      ];
+
+      const result = applyPatches(doc, patches, "test.md");
+
+      expect(result.content).toContain(
+        [
+          "<!-- toc -->",
+          "- [Guide](#guide)",
+          "  - [Usage](#usage)",
+          "  - [Advanced `usage`](#advanced-usage)",
+          "<!-- /toc -->",
+        ].join("\n")
+      );
+    });
+
+    test("writes the table of contents under a section", () => {
+      const content = "# Title\n\n## Contents\n\nOld list\n\n## One\n\n## Two\n";
+      const patches: Patch[] = [{ op: "generate-toc", section: "contents" }];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toBe(
+        "# Title\n\n## Contents\n\n- [One](#one)\n- [Two](#two)\n\n## One\n\n## Two\n"
+      );
+      expect(applyPatches(result.content, patches, "test.md").content).toBe(result.content);
+    });
+
+    test("handles missing markers with onNoMatch", () => {
+      const patches: Patch[] = [{ op: "generate-toc", onNoMatch: "warn" }];
+
+      const result = applyPatches("# Title\n\n## One", patches, "test.md");
+
+      expect(result.applied).toBe(0);
+      expect(result.warnings).toEqual(["Patch 'generate-toc' did not match: markers not found in test.md"]);
+    });
+  });
+
+  describe("rewrite-links", () => {
+    test("maps URL prefixes and hosts in inline, reference and autolinks", () => {
+      const content = [
+        "See [docs](https://old.example.com/docs/intro) and ![logo](https://cdn.example.com/logo.png \"Logo\").",
+        "Mail <https://github.com/acme/tool> or <mailto:team@example.com>.",
+        "",
+        "[ref]: https://old.example.com/docs/api",
+      ].join("\n");
+      const patches: Patch[] = [
+        {
+          op: "rewrite-links",
+          prefixes: {
+            "https://old.example.com/": "https://example.com/",
+            "https://old.example.com/docs/": "https://docs.example.com/",
+          },
+          hosts: { "github.com": "git.example.com", "cdn.example.com": "static.example.com" },
+        },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toBe(
+        [
+          "See [docs](https://docs.example.com/intro) and ![logo](https://static.example.com/logo.png \"Logo\").",
+          "Mail <https://git.example.com/acme/tool> or <mailto:team@example.com>.",
+          "",
+          "[ref]: https://docs.example.com/api",
+        ].join("\n")
+      );
+      expect(result.applied).toBe(1);
+    });
+
+    test("leaves code blocks and inline code untouched", () => {
+      const content = [
+        "[a](http://old.test/a) and `[b](http://old.test/b)`",
+        "",
+        "```md",
+        "[c](http://old.test/c)",
+        "```",
+      ].join("\n");
+      const patches: Patch[] = [{ op: "rewrite-links", hosts: { "old.test": "new.test" } }];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toBe(content.replace("http://old.test/a", "http://new.test/a"));
+    });
+
+    test("does nothing silently when no link changes", () => {
+      const content = "[a](https://example.com)";
+      const patches: Patch[] = [{ op: "rewrite-links", hosts: { "old.test": "new.test" } }];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toBe(content);
+      expect(result.applied).toBe(0);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    test("updates relative targets after file moves", () => {
+      const context = createLinkContext(
+        [{ op: "rewrite-links" }],
+        [],
+        new Map([["guide/setup.md", "docs/setup.md"]])
+      );
+      const patches: Patch[] = [{ op: "rewrite-links" }];
+
+      const moved = applyPatches(
+        "[Intro](./intro.md) and [Setup](setup.md#install)",
+        patches,
+        "docs/setup.md",
+        undefined,
+        { links: context }
+      );
+      const linking = applyPatches(
+        "[Setup](./setup.md?v=1#install) and [Home](../README.md)",
+        patches,
+        "guide/intro.md",
+        undefined,
+        { links: context }
+      );
+
+      expect(moved.content).toBe("[Intro](../guide/intro.md) and [Setup](setup.md#install)");
+      expect(linking.content).toBe("[Setup](../docs/setup.md?v=1#install) and [Home](../README.md)");
+    });
+
+    test("keeps anchors in sync with rename-header", () => {
+      const patches: Patch[] = [
+        { op: "rename-header", id: "installation", new: "Getting Started", include: ["guide.md"] },
+        { op: "rewrite-links" },
+      ];
+      const resources = [
+        { relativePath: "guide.md", content: "# Guide\n\n## Installation\n\nSee [below](#installation)." },
+        { relativePath: "README.md", content: "[Install](guide.md#installation)\n\n[other](other.md#installation)" },
+      ];
+
+      const context = createLinkContext(patches, resources, new Map());
+      const guide = applyPatches(resources[0].content, patches, "guide.md", undefined, { links: context });
+      const readme = applyPatches(resources[1].content, patches, "README.md", undefined, { links: context });
+
+      expect(guide.content).toBe("# Guide\n\n## Getting Started\n\nSee [below](#getting-started).");
+      expect(readme.content).toBe("[Install](guide.md#getting-started)\n\n[other](other.md#installation)");
+    });
+
+    test("createLinkContext returns undefined without rewrite-links patches", () => {
+      const patches: Patch[] = [{ op: "rename-header", id: "a", new: "B" }];
+
+      expect(createLinkContext(patches, [{ relativePath: "a.md", content: "# A" }], new Map())).toBeUndefined();
+    });
+  });
+
+  describe("interpolation", () => {
+    const content = "---\nname: git-helper\ntags: [git, cli]\n---\n\n# Skill\n\n## Footer\n";
+
+    test("fills frontmatter, file and config variables into content fields", () => {
+      const patches: Patch[] = [
+        {
+          op: "append-to-section",
+          id: "footer",
+          content: "${frontmatter.name} (${frontmatter.tags}) from ${vars.product}: ${file.path}, ${file.basename}, ${file.dir}, ${file.name}",
+        },
+      ];
+
+      const result = applyPatches(content, patches, "skills/git.md", undefined, { vars: { product: "Acme" } });
+
+      expect(result.content).toContain("git-helper (git, cli) from Acme: skills/git.md, git.md, skills, git");
+    });
+
+    test("leaves other ${...} text and unescapes $${", () => {
+      const patches: Patch[] = [
+        { op: "append-to-section", id: "footer", content: "echo ${HOME} $${file.path} ${file.path}" },
+      ];
+
+      const result = applyPatches(content, patches, "a.md");
+
+      expect(result.content).toContain("echo ${HOME} ${file.path} a.md");
+    });
+
+    test("sees frontmatter set by earlier patches", () => {
+      const patches: Patch[] = [
+        { op: "set-frontmatter", key: "meta.owner", value: "docs" },
+        { op: "replace", old: "# Skill", new: "# Skill by ${frontmatter.meta.owner}" },
+      ];
+
+      const result = applyPatches(content, patches, "a.md");
+
+      expect(result.content).toContain("# Skill by docs");
+    });
+
+    test("fills snippets, with their own variables, into content fields", () => {
+      const snippets = {
+        policy: { content: "Owned by ${vars.team} for ${frontmatter.name}.", configPath: "/kustomark.yaml" },
+        nested: { content: "${snippets.policy}", configPath: "/kustomark.yaml" },
+      };
+      const patches: Patch[] = [
+        { op: "append-to-section", id: "footer", content: "${snippets.policy}" },
+        { op: "prepend-to-section", id: "skill", content: "${snippets.nested}", onNoMatch: "warn" },
+      ];
+
+      const result = applyPatches(content, patches, "a.md", undefined, { vars: { team: "docs" }, snippets });
+
+      expect(result.content).toContain("Owned by docs for git-helper.");
+      expect(result.applied).toBe(1);
+      expect(result.warnings).toEqual(["Patch 'prepend-to-section' did not match: ${snippets.policy} has no value in a.md"]);
+    });
+
+    test("treats a variable without a value as a non-match", () => {
+      const patches: Patch[] = [
+        { op: "replace", old: "# Skill", new: "# ${frontmatter.title}", onNoMatch: "warn" },
+      ];
+
+      const result = applyPatches(content, patches, "a.md");
+
+      expect(result.applied).toBe(0);
+      expect(result.content).toBe(content);
+      expect(result.warnings).toEqual(["Patch 'replace' did not match: ${frontmatter.title} has no value in a.md"]);
+    });
+  });
+
+  describe("where predicates", () => {
+    const skill = (frontmatter: string) => `---\n${frontmatter}\n---\n\nUse npm here.`;
+
+    test("applies patches only to files whose frontmatter matches", () => {
+      const patches: Patch[] = [
+        {
+          op: "replace",
+          old: "npm",
+          new: "bun",
+          where: { category: "git", draft: { not: true }, tags: { arrayContains: "cli" } },
+        },
+      ];
+
+      const matching = applyPatches(skill("category: git\ntags: [cli, vcs]"), patches, "a.md");
+      const draft = applyPatches(skill("category: git\ndraft: true\ntags: [cli]"), patches, "b.md");
+      const other = applyPatches(skill("category: web\ntags: [cli]"), patches, "c.md");
+
+      expect(matching.content).toContain("Use bun here.");
+      expect(draft.applied).toBe(0);
+      expect(other.applied).toBe(0);
+      expect(other.warnings).toHaveLength(0);
+    });
+
+    test("supports in, exists and dot-notation keys", () => {
+      const content = skill("meta:\n  level: beginner");
+
+      const run = (where: NonNullable<Patch["where"]>) =>
+        applyPatches(content, [{ op: "replace", old: "npm", new: "bun", where }], "test.md").applied;
+
+      expect(run({ "meta.level": { in: ["beginner", "intermediate"] } })).toBe(1);
+      expect(run({ "meta.level": { in: ["advanced"] } })).toBe(0);
+      expect(run({ "meta.owner": { exists: false } })).toBe(1);
+      expect(run({ "meta.level": { exists: true, equals: "beginner" } })).toBe(1);
+      expect(run({ draft: { not: true } })).toBe(1);
+    });
+
+    test("sees frontmatter set by earlier patches", () => {
+      const patches: Patch[] = [
+        { op: "set-frontmatter", key: "category", value: "git" },
+        { op: "replace", old: "npm", new: "bun", where: { category: "git" } },
+      ];
+
+      const result = applyPatches(skill("title: A"), patches, "test.md");
+
+      expect(result.applied).toBe(2);
+      expect(result.content).toContain("Use bun here.");
+    });
+
+    test("describeWhere summarizes predicates", () => {
+      expect(describeWhere({ category: "git", draft: { not: true }, tags: { arrayContains: "cli", exists: true } })).toBe(
+        'category = "git" and draft != true and tags exists and tags contains "cli"'
+      );
+    });
+  });
+
+  describe("within scopes", () => {
+    const content = `---
+title: npm guide
+---
+
+# Guide
+
+Use npm.
+
+## Configuration
+
+Set npm registry.
+
+### Advanced
+
+npm config list
+
+## Usage
+
+Run npm start.
+`;
+
+    test("restricts replace to a section with its children", () => {
+      const patches: Patch[] = [
+        { op: "replace", old: "npm", new: "bun", within: { section: "configuration" } },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("Set bun registry.");
+      expect(result.content).toContain("bun config list");
+      expect(result.content).toContain("Use npm.");
+      expect(result.content).toContain("Run npm start.");
+    });
+
+    test("can exclude child sections and frontmatter", () => {
+      const patches: Patch[] = [
+        {
+          op: "replace-regex",
+          pattern: "npm",
+          replacement: "pnpm",
+          flags: "g",
+          within: { section: "configuration", includeChildren: false },
+        },
+        { op: "replace-regex", pattern: "\\bnpm\\b", replacement: "bun", flags: "g", within: "body" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toContain("title: npm guide");
+      expect(result.content).toContain("Set pnpm registry.");
+      expect(result.content).toContain("bun config list");
+      expect(result.content).toContain("Run bun start.");
+    });
+
+    test("runs line ops against the frontmatter only", () => {
+      const patches: Patch[] = [
+        { op: "replace-line", match: "npm", replacement: "title: Bun guide", within: "frontmatter" },
+        { op: "insert-after-line", match: "Use npm.", content: "Never shown", within: "frontmatter" },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content.startsWith("---\ntitle: Bun guide\n---\n")).toBe(true);
+      expect(result.content).not.toContain("Never shown");
+      expect(result.warnings).toHaveLength(1);
+    });
+
+    test("finds the frontmatter after a BOM and with CRLF line endings", () => {
+      const crlf = "\uFEFF---\r\ntitle: npm guide\r\n---\r\nUse npm.\r\n";
+
+      const result = applyPatches(crlf, [{ op: "replace", old: "npm", new: "bun", within: "frontmatter" }], "test.md");
+
+      expect(result.content).toBe("\uFEFF---\r\ntitle: bun guide\r\n---\r\nUse npm.\r\n");
+    });
+
+    test("applies onNoMatch and validation to the slice", () => {
+      const patches: Patch[] = [
+        { op: "replace", old: "npm", new: "bun", within: { section: "missing" } },
+        {
+          op: "replace",
+          old: "Set",
+          new: "Pin",
+          within: { section: "configuration", includeChildren: false },
+          validate: { notContains: "npm" },
+        },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(1);
+      expect(result.warnings[0]).toBe(
+        `Patch 'replace' did not match: section "missing" not found in test.md`
+      );
+      expect(result.warnings[1]).toContain("Validation failed for patch 'replace'");
+      expect(result.content).toContain("Pin npm registry.");
+      expect(() =>
+        applyPatches(
+          content,
+          [{ op: "replace", old: "yarn", new: "bun", within: "body", onNoMatch: "error" }],
+          "test.md"
+        )
+      ).toThrow();
+    });
+  });
+
+  describe("occurrence control", () => {
+    const content = "- npm install\n- npm test\n- npm run build\n";
+
+    test("replaces the first, last or nth occurrence", () => {
+      const first = applyPatches(content, [{ op: "replace", old: "npm", new: "bun", occurrence: "first" }], "test.md");
+      const last = applyPatches(content, [{ op: "replace", old: "npm", new: "bun", occurrence: "last" }], "test.md");
+      const nth = applyPatches(content, [{ op: "replace", old: "npm", new: "bun", occurrence: 2 }], "test.md");
+
+      expect(first.content).toBe("- bun install\n- npm test\n- npm run build\n");
+      expect(last.content).toBe("- npm install\n- npm test\n- bun run build\n");
+      expect(nth.content).toBe("- npm install\n- bun test\n- npm run build\n");
+      expect(nth.occurrences).toEqual([{ patchIndex: 0, op: "replace", matched: 3, applied: 1 }]);
+    });
+
+    test("line ops can target the last or all matching lines", () => {
+      const patches: Patch[] = [
+        { op: "insert-after-line", match: "npm", content: "  # checked", occurrence: "all" },
+        { op: "replace-line", match: "npm", replacement: "- bun test", occurrence: "last" },
+        { op: "insert-before-line", pattern: "^- npm", content: "- bun install", occurrence: 1 },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.content).toBe(
+        "- bun install\n- npm install\n  # checked\n- npm test\n  # checked\n- bun test\n  # checked\n"
+      );
+      expect(result.occurrences.map((o) => [o.op, o.matched, o.applied])).toEqual([
+        ["insert-after-line", 3, 3],
+        ["replace-line", 3, 1],
+        ["insert-before-line", 2, 1],
+      ]);
+    });
+
+    test("expectCount rejects an unexpected number of matches", () => {
+      const patches: Patch[] = [
+        { op: "replace", old: "npm", new: "bun", expectCount: 2 },
+        { op: "replace-line", match: "npm test", replacement: "- bun test", expectCount: 1 },
+        { op: "insert-after-line", match: "npm", content: "x", occurrence: 5 },
+      ];
+
+      const result = applyPatches(content, patches, "test.md");
+
+      expect(result.applied).toBe(1);
+      expect(result.warnings).toEqual([
+        "Patch 'replace' expected 2 matches but found 3 in test.md",
+        "Patch 'insert-after-line' did not match: occurrence 5 requested but only 2 found in test.md",
+      ]);
+      expect(() =>
+        applyPatches(
+          content,
+          [{ op: "replace", old: "yarn", new: "bun", expectCount: 1, onNoMatch: "error" }],
+          "test.md"
+        )
+      ).toThrow("expected 1 match but found 0");
+    });
+  });
+
   describe("per-patch validation", () => {
     test("warns when notContains validation fails", () => {
       const content = `# Title
@@ -1293,6 +2510,19 @@ describe("Patch Inheritance", () => {
     expect(() => resolveExtends(patches)).toThrow('Duplicate patch id: "dup"');
   });
 
+  test("throws when a resolved patch has no text or an unloaded text file", () => {
+    const inherited: Patch[] = [
+      { id: "base", op: "replace", old: "a" },
+      { extends: "base", old: "b" } as Patch,
+    ];
+    const unloaded: Patch[] = [{ op: "replace-section", id: "intro", contentFile: "intro.md" }];
+
+    expect(() => resolveExtends(inherited)).toThrow("Patch 'replace' has no new: set new or newFile");
+    expect(() => applyPatches("# Intro\n", unloaded, "test.md")).toThrow(
+      "Patch 'replace-section' has no content: contentFile 'intro.md' was not loaded"
+    );
+  });
+
   test("supports chain of extends", () => {
     const content = "aaa bbb ccc";
     const patches: Patch[] = [
@@ -0,0 +1,401 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { collectPatchFiles, findSecurityViolations, resolveResources } from "../src/core/resources.js";
+import type { LockedResource } from "../src/core/lockfile.js";
+
+describe("Resource Resolution", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), "kustomark-resources-test-"));
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function writeConfig(dir: string, body: string): Promise<void> {
+    await mkdir(dir, { recursive: true });
+    await writeFile(
+      join(dir, "kustomark.yaml"),
+      `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+${body}`
+    );
+  }
+
+  describe("nested kustomark configs", () => {
+    test("applies base patches before returning files to the overlay", async () => {
+      const companyDir = join(testDir, "company");
+      await mkdir(join(companyDir, "docs"), { recursive: true });
+      await writeFile(join(companyDir, "docs", "policy.md"), "# Policy\n\nGeneric company content.\n");
+      await writeConfig(
+        companyDir,
+        `resources:
+  - "docs/*.md"
+patches:
+  - op: replace
+    old: Generic company
+    new: Company-wide
+`
+      );
+
+      const teamDir = join(testDir, "team");
+      await writeConfig(teamDir, "resources:\n  - ../company/\n");
+
+      const files = await resolveResources(join(teamDir, "kustomark.yaml"), ["../company/"]);
+
+      expect(files.length).toBe(1);
+      expect(files[0].relativePath).toBe("docs/policy.md");
+      expect(files[0].content).toContain("Company-wide content.");
+    });
+
+    test("composes patches across three layers in order", async () => {
+      const companyDir = join(testDir, "company");
+      await mkdir(companyDir, { recursive: true });
+      await writeFile(join(companyDir, "doc.md"), "# Doc\n\nalpha\n");
+      await writeConfig(
+        companyDir,
+        `resources:
+  - "*.md"
+patches:
+  - op: replace
+    old: alpha
+    new: beta
+`
+      );
+
+      const teamDir = join(testDir, "team");
+      await writeConfig(
+        teamDir,
+        `resources:
+  - ../company/
+patches:
+  - op: replace
+    old: beta
+    new: gamma
+`
+      );
+
+      const projectDir = join(testDir, "project");
+      await writeConfig(projectDir, "resources:\n  - ../team/\n");
+
+      const files = await resolveResources(join(projectDir, "kustomark.yaml"), ["../team/"]);
+
+      expect(files[0].relativePath).toBe("doc.md");
+      expect(files[0].content).toContain("gamma");
+      expect(files[0].content).not.toContain("beta");
+    });
+
+    test("runs nested file operations and keeps copies distinct", async () => {
+      const baseDir = join(testDir, "base");
+      await mkdir(baseDir, { recursive: true });
+      await writeFile(join(baseDir, "a.md"), "# A\n");
+      await writeConfig(
+        baseDir,
+        `resources:
+  - "*.md"
+patches:
+  - op: copy-file
+    src: a.md
+    dest: b.md
+`
+      );
+
+      const overlayDir = join(testDir, "overlay");
+      await writeConfig(overlayDir, "resources:\n  - ../base/\n");
+
+      const files = await resolveResources(join(overlayDir, "kustomark.yaml"), ["../base/"]);
+      const paths = files.map((f) => f.relativePath).sort();
+
+      expect(paths).toEqual(["a.md", "b.md"]);
+    });
+
+    test("honours group filtering in nested layers", async () => {
+      const baseDir = join(testDir, "base");
+      await mkdir(baseDir, { recursive: true });
+      await writeFile(join(baseDir, "doc.md"), "debug=true\n");
+      await writeConfig(
+        baseDir,
+        `resources:
+  - "*.md"
+patches:
+  - op: replace
+    old: debug=true
+    new: debug=false
+    group: production
+`
+      );
+
+      const overlayDir = join(testDir, "overlay");
+      await writeConfig(overlayDir, "resources:\n  - ../base/\n");
+
+      const files = await resolveResources(join(overlayDir, "kustomark.yaml"), ["../base/"], {
+        groupOptions: { disableGroups: ["production"] },
+      });
+
+      expect(files[0].content).toBe("debug=true\n");
+    });
+
+    test("uses the nested config's onNoMatch default", async () => {
+      const baseDir = join(testDir, "base");
+      await mkdir(baseDir, { recursive: true });
+      await writeFile(join(baseDir, "doc.md"), "# Doc\n");
+      await writeConfig(
+        baseDir,
+        `resources:
+  - "*.md"
+onNoMatch: error
+patches:
+  - op: replace
+    old: missing
+    new: found
+`
+      );
+
+      const overlayDir = join(testDir, "overlay");
+      await writeConfig(overlayDir, "resources:\n  - ../base/\n");
+
+      await expect(
+        resolveResources(join(overlayDir, "kustomark.yaml"), ["../base/"])
+      ).rejects.toThrow("did not match");
+    });
+
+    test("collects nested warnings and validator failures", async () => {
+      const baseDir = join(testDir, "base");
+      await mkdir(baseDir, { recursive: true });
+      await writeFile(join(baseDir, "doc.md"), "# Doc\n\nTODO\n");
+      await writeConfig(
+        baseDir,
+        `resources:
+  - "*.md"
+patches:
+  - op: remove-section
+    id: missing
+validators:
+  - name: no-todos
+    notContains: TODO
+`
+      );
+
+      const overlayDir = join(testDir, "overlay");
+      await writeConfig(overlayDir, "resources:\n  - ../base/\n");
+
+      const warnings: string[] = [];
+      await resolveResources(join(overlayDir, "kustomark.yaml"), ["../base/"], { warnings });
+
+      expect(warnings.some((w) => w.includes("remove-section"))).toBe(true);
+      expect(warnings.some((w) => w.includes("no-todos"))).toBe(true);
+    });
+
+    test("nested layers inherit the overlay's vars and snippets and can override them", async () => {
+      const baseDir = join(testDir, "base");
+      await mkdir(join(baseDir, "snippets"), { recursive: true });
+      await writeFile(join(baseDir, "doc.md"), "# Doc\n\n## Policy\n");
+      await writeFile(join(baseDir, "snippets", "footer.md"), "Questions? Ask ${vars.team}.");
+      await writeConfig(
+        baseDir,
+        `resources:
+  - "*.md"
+vars:
+  team: base-team
+snippets:
+  footer:
+    file: snippets/footer.md
+patches:
+  - op: append-to-section
+    id: policy
+    content: "\${snippets.policy}\\n\\n\${snippets.footer}"
+`
+      );
+
+      const overlayDir = join(testDir, "overlay");
+      await writeConfig(
+        overlayDir,
+        `resources:
+  - ../base/
+vars:
+  team: overlay-team
+  org: Acme
+snippets:
+  policy: Follow the \${vars.org} policy.
+  footer: Overlay footer
+`
+      );
+
+      const files = await resolveResources(join(overlayDir, "kustomark.yaml"), ["../base/"]);
+
+      expect(files[0].content).toContain("Follow the Acme policy.\n\nQuestions? Ask base-team.");
+    });
+
+    test("loads nested content files relative to the nested config", async () => {
+      const baseDir = join(testDir, "base");
+      await mkdir(join(baseDir, "bodies"), { recursive: true });
+      await writeFile(join(baseDir, "doc.md"), "# Doc\n\n## Policy\n\nOld\n");
+      await writeFile(join(baseDir, "bodies", "policy.md"), "From the base\n");
+      await writeConfig(
+        baseDir,
+        `resources:
+  - "*.md"
+snippets:
+  footer:
+    file: bodies/footer.md
+patches:
+  - op: replace-section
+    id: policy
+    contentFile: bodies/policy.md
+`
+      );
+      await writeFile(join(baseDir, "bodies", "footer.md"), "Footer\n");
+
+      const overlayDir = join(testDir, "overlay");
+      await mkdir(overlayDir, { recursive: true });
+      await writeFile(join(overlayDir, "intro.md"), "Intro\n");
+      await writeConfig(
+        overlayDir,
+        `resources:
+  - ../base/
+patches:
+  - op: append-to-section
+    id: policy
+    contentFile: intro.md
+`
+      );
+
+      const files = await resolveResources(join(overlayDir, "kustomark.yaml"), ["../base/"]);
+
+      expect(files[0].content).toContain("## Policy\n\nFrom the base");
+      expect((await collectPatchFiles(join(overlayDir, "kustomark.yaml"))).sort()).toEqual([
+        join(baseDir, "bodies", "footer.md"),
+        join(baseDir, "bodies", "policy.md"),
+        join(overlayDir, "intro.md"),
+      ]);
+    });
+  });
+
+  describe("security policy", () => {
+    test("enforces the overlay's allowlist on nested layers", async () => {
+      const baseDir = join(testDir, "base");
+      await writeConfig(
+        baseDir,
+        `resources:
+  - https://untrusted.invalid/docs.md
+security:
+  allowedHosts: [untrusted.invalid]
+`
+      );
+
+      const overlayDir = join(testDir, "overlay");
+      await writeConfig(
+        overlayDir,
+        `resources:
+  - ../base/
+security:
+  allowedHosts: [github.com]
+`
+      );
+
+      await expect(
+        resolveResources(join(overlayDir, "kustomark.yaml"), ["../base/"])
+      ).rejects.toThrow("host 'untrusted.invalid' is not allowed");
+    });
+
+    test("reports violations in nested layers without fetching", async () => {
+      const baseDir = join(testDir, "base");
+      await writeConfig(
+        baseDir,
+        `resources:
+  - git::git@github.com:org/repo.git//docs
+security:
+  allowedProtocols: [https]
+`
+      );
+
+      const overlayDir = join(testDir, "overlay");
+      await writeConfig(overlayDir, "resources:\n  - ../base/\n  - github.com/org/repo//skills\n");
+
+      const violations = await findSecurityViolations(join(overlayDir, "kustomark.yaml"));
+
+      expect(violations.length).toBe(1);
+      expect(violations[0]).toContain("protocol 'ssh' is not allowed");
+    });
+  });
+
+  describe("remote resources with a lock file", () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let served: string;
+    let previousCacheDir: string | undefined;
+
+    beforeEach(() => {
+      served = "# Remote\n\nOriginal content.\n";
+      server = Bun.serve({
+        port: 0,
+        fetch: () => new Response(served),
+      });
+      previousCacheDir = process.env.KUSTOMARK_CACHE_DIR;
+      process.env.KUSTOMARK_CACHE_DIR = join(testDir, "cache");
+    });
+
+    afterEach(() => {
+      server.stop(true);
+      if (previousCacheDir === undefined) {
+        delete process.env.KUSTOMARK_CACHE_DIR;
+      } else {
+        process.env.KUSTOMARK_CACHE_DIR = previousCacheDir;
+      }
+    });
+
+    test("records a lock entry on first fetch", async () => {
+      const url = `http://localhost:${server.port}/remote.md`;
+      const lockEntries: LockedResource[] = [];
+
+      const files = await resolveResources(join(testDir, "kustomark.yaml"), [url], {
+        lockFile: null,
+        lockEntries,
+      });
+
+      expect(files[0].relativePath).toBe("remote.md");
+      expect(lockEntries.length).toBe(1);
+      expect(lockEntries[0].url).toBe(url);
+      expect(lockEntries[0].integrity).toMatch(/^sha256-/);
+    });
+
+    test("fails when fetched content does not match the locked integrity", async () => {
+      const url = `http://localhost:${server.port}/remote.md`;
+      const lockEntries: LockedResource[] = [];
+      await resolveResources(join(testDir, "kustomark.yaml"), [url], { lockEntries });
+
+      // Upstream changes and the cache is gone
+      served = "# Remote\n\nTampered content.\n";
+      process.env.KUSTOMARK_CACHE_DIR = join(testDir, "fresh-cache");
+
+      await expect(
+        resolveResources(join(testDir, "kustomark.yaml"), [url], {
+          lockFile: { version: 1, resources: lockEntries },
+        })
+      ).rejects.toThrow("Integrity check failed");
+    });
+
+    test("accepts content that matches the lock", async () => {
+      const url = `http://localhost:${server.port}/remote.md`;
+      const lockEntries: LockedResource[] = [];
+      await resolveResources(join(testDir, "kustomark.yaml"), [url], { lockEntries });
+
+      const newEntries: LockedResource[] = [];
+      const files = await resolveResources(join(testDir, "kustomark.yaml"), [url], {
+        lockFile: { version: 1, resources: lockEntries },
+        lockEntries: newEntries,
+      });
+
+      expect(files[0].content).toContain("Original content.");
+      expect(newEntries.length).toBe(0);
+    });
+  });
+});
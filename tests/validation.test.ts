@@ -1,5 +1,10 @@
 import { describe, test, expect } from "bun:test";
-import { runGlobalValidators, validateFiles } from "../src/core/validation.js";
+import {
+  formatValidationError,
+  runGlobalValidators,
+  runLinkValidators,
+  validateFiles,
+} from "../src/core/validation.js";
 import type { Validator } from "../src/core/config.js";
 
 describe("Global Validators", () => {
@@ -209,4 +214,74 @@ Contains rpi/ and TODO: fix`;
       expect(result.errors.length).toBe(0);
     });
   });
+
+  describe("runLinkValidators", () => {
+    const validators: Validator[] = [{ name: "links", linksResolve: true }];
+
+    test("reports missing files and anchors with their line", () => {
+      const files = [
+        {
+          path: "docs/guide.md",
+          content: [
+            "# Guide",
+            "",
+            "## Setup Steps",
+            "",
+            "See [setup](#setup-steps) and [api](../api.md#methods).",
+            "Also [gone](./old.md) and [missing](#install).",
+          ].join("\n"),
+        },
+        { path: "api.md", content: "# API\n\n## Methods\n\nBack to [guide](docs/guide.md#guide)." },
+      ];
+
+      const errors = runLinkValidators(files, validators);
+
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toMatchObject({ file: "docs/guide.md", line: 6, validator: "links" });
+      expect(errors[0].message).toBe("Broken link './old.md': docs/old.md not found");
+      expect(errors[1].message).toBe("Broken link '#install': no heading with anchor '#install' in docs/guide.md");
+      expect(formatValidationError(errors[0])).toBe(
+        "Validator 'links' failed on docs/guide.md:6: Broken link './old.md': docs/old.md not found"
+      );
+    });
+
+    test("decodes percent-encoded anchors of non-ASCII headings", () => {
+      const files = [
+        { path: "menu.md", content: "# Menu\n\n## Café\n\nSee [café](#caf%C3%A9), [raw](#café) and [bad](#caf%C3%A8)." },
+      ];
+
+      const errors = runLinkValidators(files, validators);
+
+      expect(errors.map((error) => error.message)).toEqual([
+        "Broken link '#caf%C3%A8': no heading with anchor '#cafè' in menu.md",
+      ]);
+    });
+
+    test("ignores URLs, assets, code and links outside the file set", () => {
+      const files = [
+        {
+          path: "README.md",
+          content: [
+            "[site](https://example.com/missing.md) ![logo](img/logo.png)",
+            "[up](../outside.md) `[code](nope.md)`",
+            "",
+            "```",
+            "[block](nope.md)",
+            "```",
+          ].join("\n"),
+        },
+      ];
+
+      expect(runLinkValidators(files, validators)).toHaveLength(0);
+    });
+
+    test("validateFiles includes link errors", () => {
+      const files = [{ path: "a.md", content: "# A\n\n[b](b.md)" }];
+
+      const result = validateFiles(files, validators);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].message).toBe("Broken link 'b.md': b.md not found");
+    });
+  });
 });
@@ -1,4 +1,8 @@
 import { describe, test, expect } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { buildOutputFiles } from "../src/web/server.js";
 
 // Note: The Web UI server requires actual HTTP connections.
 // These tests focus on the data structures and API design.
@@ -196,4 +200,40 @@ describe("Web UI", () => {
       expect(corsHeaders["Access-Control-Allow-Methods"]).toContain("OPTIONS");
     });
   });
+
+  describe("buildOutputFiles", () => {
+    test("runs file operations and link rewriting like build", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "kustomark-web-"));
+      try {
+        await writeFile(join(dir, "index.md"), "# Index\n\nSee [guide](guide.md).\n");
+        await writeFile(join(dir, "guide.md"), "# Guide\n");
+        await writeFile(
+          join(dir, "kustomark.yaml"),
+          `apiVersion: kustomark/v1
+kind: Kustomization
+output: ./out
+resources:
+  - "*.md"
+patches:
+  - op: move-file
+    match: guide.md
+    dest: docs/
+  - op: create-file
+    dest: NOTES.md
+    content: "# Notes"
+  - op: rewrite-links
+    relative: true
+`
+        );
+
+        const { outputDir, files } = await buildOutputFiles(join(dir, "kustomark.yaml"));
+
+        expect(outputDir).toBe(join(dir, "out"));
+        expect(files.map((f) => f.relativePath).sort()).toEqual(["NOTES.md", "docs/guide.md", "index.md"]);
+        expect(files.find((f) => f.relativePath === "index.md")?.content).toContain("(docs/guide.md)");
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
 });